@@ -6,7 +6,7 @@
 
 // Configuration for ChatGPT API requests
 interface ChatGPTConfig {
-  model: string; // Model name (e.g., gpt-3.5-turbo)
+  model: string; // Model name (e.g., gpt-3.5-turbo); empty uses the provider default
   temperature: number; // Sampling temperature
   max_tokens: number; // Max tokens in response
   top_p: number; // Nucleus sampling parameter
@@ -33,13 +33,360 @@ interface PluginMessage {
   [key: string]: any;
 }
 
+// Named generation configuration that can be picked per request
+interface GenerationPreset {
+  name: string;
+  config: ChatGPTConfig;
+}
+
+// Allowed range for a numeric ChatGPTConfig field
+interface ConfigRange {
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+// A repeated container (product card, list row) whose text layers are filled by layer name
+interface StructuredCard {
+  node: SceneNode;
+  fields: { [fieldName: string]: TextNode[] }; // Text layers grouped by layer name
+}
+
+// Selection of repeated containers filled in structured mode
+interface StructuredSelection {
+  cards: StructuredCard[]; // In replacement order
+  fieldNames: string[]; // Layer names across all cards, in order of first appearance
+}
+
+// Size and role hints for one text slot, sent to the model when slot context is enabled
+interface TextSlotContext {
+  index?: number; // 1-based slot position (flat mode only)
+  layerName: string;
+  parentName: string | null; // Nearest enclosing frame, component, instance or section
+  currentText: string;
+  fontSize: number;
+  autoResize: TextNode['textAutoResize'];
+  charsPerLine: number | null; // Null when the box grows horizontally
+  maxLines: number | null; // Null when the box grows vertically
+  maxChars: number | null; // Approximate budget for fixed-size boxes, null when unbounded
+}
+
+// Slot context for one card in structured mode
+interface CardSlotContext {
+  index: number;
+  cardName: string;
+  fields: { [fieldName: string]: TextSlotContext }; // Context of the first layer with each name
+}
+
+// Optional inputs that shape the system prompt beyond the slot count
+interface PromptContext {
+  fieldNames: string[] | null; // Layer names for structured mode, null for a flat array
+  slots: (TextSlotContext | CardSlotContext)[] | null; // Per-slot context, null when disabled
+  nativeJson: boolean; // Ask the provider to enforce the response schema, where it supports that
+  styleGuide: StyleGuide | null; // The document's brand voice, null when none is set
+  checkCopy: boolean; // Ask for findings about each slot's current text instead of new text
+  variantCount: number; // Alternatives per slot; above 1, each item is an array of alternatives
+}
+
+// A preferred term and the words it replaces
+interface PreferredTerm {
+  use: string;
+  insteadOf: string[];
+}
+
+// Document-wide brand voice shared by everyone editing the file (stored in shared plugin data)
+interface StyleGuide {
+  tone: string;
+  audience: string;
+  preferredTerms: PreferredTerm[];
+  bannedWords: string[];
+  examples: string[]; // Sample copy written in the brand voice
+}
+
+// A generation request, recorded on every node it writes
+interface GenerationRecord {
+  id: string; // Shared by all nodes written by the same request
+  prompt: string;
+  model: string;
+  provider: string; // Provider label
+  timestamp: number;
+}
+
+// One generated version of a node's text, stored in the node's plugin data
+interface NodeVersion {
+  generationId: string;
+  prompt: string;
+  model: string;
+  provider: string;
+  timestamp: number;
+  previousText: string; // Text before the generation wrote the node
+  text: string; // Text the generation left in the node
+}
+
+// A past generation as listed in the history panel, with the selected nodes it wrote
+interface GenerationHistoryEntry extends GenerationRecord {
+  nodes: {
+    nodeId: string;
+    name: string;
+    previousText: string;
+    text: string;
+    isCurrent: boolean; // True while the node still shows this generation's text
+  }[];
+}
+
+// Alternatives generated for one slot, stored on its node (a text layer, or the card in structured mode)
+interface SlotVariants {
+  generation: GenerationRecord;
+  variants: any[]; // Texts, or objects of field texts in structured mode
+  current: number; // Index of the variant the slot shows
+  pinned: boolean; // Pinned slots keep their text when the unpinned slots are regenerated
+}
+
+// Prompt stored on a generated slot, replayed by its Regenerate relaunch button
+interface RelaunchPrompt {
+  prompt: string;
+  preset: string; // Preset name chosen for the request, '' for the default
+}
+
+// One fill slot of the selection: a text layer, or a card in structured mode
+interface SelectionSlot {
+  node: SceneNode;
+  card: StructuredCard | null;
+}
+
+// Called after a node was written, with its text before the write
+type TextWrittenCallback = (textElement: TextNode, previousText: string) => void;
+
+// One prompt and the items generated for it, kept per selection for follow-up prompts
+interface ConversationTurn {
+  prompt: string;
+  response: string; // The generated items as a JSON array, one per slot (null where generation failed)
+  timestamp: number;
+}
+
+// How selected nodes are ordered before generated items are assigned to them
+type OrderingStrategy = 'auto' | 'layer' | 'reading-ltr' | 'reading-rtl' | 'columns' | 'grid-rows' | 'grid-columns';
+
+// Period a spending limit applies to ('off' for no limit)
+type BudgetPeriod = 'off' | 'day' | 'month';
+
+// Tokens consumed by one request
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Running totals of requests, tokens and estimated cost
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated US dollars; models without a known price add nothing
+}
+
+// Usage of the current day and month (persisted in client storage, so counted per computer)
+interface UsageLedger {
+  day: string; // Local date, YYYY-MM-DD
+  dayTotals: UsageTotals;
+  month: string; // Local month, YYYY-MM
+  monthTotals: UsageTotals;
+  models: { [model: string]: UsageTotals }; // This month's usage per model
+}
+
+// Target locales and do-not-translate terms for translation mode (persisted in client storage)
+interface TranslationSettings {
+  locales: string[]; // Locale codes, e.g. "de-DE"
+  glossary: string[]; // Terms copied into translations unchanged
+}
+
+// Plugin behaviour options toggled in settings (persisted in client storage)
+interface PluginOptions {
+  reviewBeforeApply: boolean; // Show proposed text for approval instead of writing it immediately
+  streamResponses: boolean; // Stream completions and fill each node as soon as its item arrives
+  includeSlotContext: boolean; // Send each slot's existing text, layer names and size budget to the model
+  overflowRetries: number; // How many times to ask for shorter text for boxes that overflow (0 disables)
+  deepSelection: boolean; // Fill text nested inside selected frames, groups, sections and instances
+  skipHiddenLayers: boolean; // Ignore hidden text layers and layers inside hidden containers
+  skipLockedLayers: boolean; // Ignore locked text layers and layers inside locked containers
+  layerNameFilter: string; // Only fill layers whose name matches, e.g. "title*, label" ('' matches all)
+  orderingStrategy: OrderingStrategy; // How slots are ordered; 'auto' uses auto layout order, else rows
+  orderingTolerance: number; // Pixels within which nodes count as the same row or column
+  nativeJsonMode: boolean; // Use the provider's JSON / structured output mode where supported
+  keepConversation: boolean; // Send earlier prompts and results for the same selection with follow-ups
+  writeToVariables: boolean; // Bind filled layers to string variables (one per layer) and write the variables
+  variableCollection: string; // Collection the variables are created in when writeToVariables is on
+  variableMode: string; // Mode name to write variables in ('' writes the mode each layer displays)
+  variantCount: number; // Alternatives generated per slot, stored for cycling (1 turns variants off)
+  budgetPeriod: BudgetPeriod; // Period the spending limit applies to
+  budgetLimit: number; // Estimated US dollars that may be spent per budget period
+}
+
+// Collection receiving one string variable per filled layer, with the variable names already taken
+interface VariableTarget {
+  collection: VariableCollection;
+  names: Set<string>;
+}
+
+// Provider, settings and API key a request handler sends its requests with
+interface PreparedRequest {
+  settings: ProviderSettings;
+  provider: LLMProvider;
+  apiKey: string; // Empty for keyless servers
+  withRequestRetries<T>(run: () => Promise<T>): Promise<T>; // Sends a request with the configured retries
+}
+
+// Outcome of writing text into one node, reported to the UI after a batch
+interface TextWriteResult {
+  nodeId: string;
+  name: string; // Layer name
+  status: 'updated' | 'missing-font' | 'error' | 'overflow';
+  message?: string; // Reason when the node was skipped, or why an updated node does not fit
+}
+
+// Size of a text box before it was written, used to detect overflow afterwards
+interface TextBoxSnapshot {
+  width: number;
+  height: number;
+}
+
+// Why a written text does not fit, and roughly how much of it would
+interface TextFitIssue {
+  reason: string;
+  ratio: number; // Share of the text that fits (0-1), used to pick a shorter target length
+}
+
+// A text node about to be written, with its size before the write
+interface TextFitTarget {
+  node: TextNode;
+  before: TextBoxSnapshot;
+}
+
+// One proposed replacement shown in the review panel
+interface ReviewEntry {
+  index: number; // 1-based position in the replacement order
+  nodeId: string;
+  name: string; // Layer name
+  currentText: string;
+  proposedText: string;
+  violations?: string[]; // Style guide problems in the proposed text
+  fixedText?: string; // Proposed text with preferred terms substituted, when that changes it
+}
+
+// Kind of problem reported by the copy check
+type CopyFindingType = 'spelling' | 'grammar' | 'consistency' | 'truncation' | 'style';
+
+// One problem found in a node's current text by the copy check
+interface CopyFinding {
+  type: CopyFindingType;
+  message: string;
+  original: string; // Exact excerpt of the current text to replace, empty when there is no automatic fix
+  replacement: string;
+}
+
+// The findings for one checked node, as listed in the copy check panel
+interface CopyCheckEntry {
+  index: number; // 1-based position in the replacement order
+  nodeId: string;
+  name: string; // Layer name
+  text: string; // Text the findings refer to
+  findings: CopyFinding[];
+}
+
+// Identifier of a supported LLM backend
+type ProviderId = 'openai' | 'anthropic' | 'azure' | 'openai-compatible';
+
+// User-selected provider and its connection details (persisted in client storage)
+interface ProviderSettings {
+  provider: ProviderId; // Active provider
+  baseUrl: string; // Base URL for OpenAI-compatible servers, or the Azure resource endpoint
+  deployment: string; // Azure deployment name
+  apiVersion: string; // Azure API version
+  // Abandon a request with no response (or no streamed data) for this long. Streams are aborted through the UI;
+  // a non-streamed request cannot be aborted from the sandbox, so it keeps running (and is billed) after it is abandoned
+  timeoutSeconds: number;
+  maxRetries: number; // Retries for rate limits, server errors, network errors and timeouts
+}
+
+// Chat message in the shape every adapter accepts
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// HTTP request produced by a provider adapter
+interface ProviderRequest {
+  url: string;
+  headers: { [name: string]: string };
+  body: any;
+}
+
+// Adapter that translates between the plugin and one LLM backend
+interface LLMProvider {
+  id: ProviderId;
+  label: string; // Human-readable name for messages
+  defaultModel: string; // Model used when the settings leave it empty
+  requiresApiKey: boolean; // False for keyless local servers
+  buildRequest(apiKey: string, settings: ProviderSettings, messages: ChatMessage[], config: ChatGPTConfig): ProviderRequest;
+  extractContent(data: any): string; // Pulls the generated text out of a parsed response body
+  extractStreamDelta(event: any): string; // Pulls the text delta out of one parsed SSE event
+  extractUsage(data: any): Partial<TokenUsage> | null; // Reads token counts from a response body or SSE event, if it has any
+  streamUsageOptions: any; // Body settings that make a stream report its token usage, or null if it always does or never can
+  supportsJsonSchema(config: ChatGPTConfig): boolean; // True if applyJsonSchema can enforce the output shape
+  applyJsonSchema(body: any, schema: any): void; // Adds the provider's native JSON / structured output settings
+}
+
+// Incremental parser that yields JSON array items as soon as each one is complete
+interface ArrayStreamParser {
+  push(text: string): any[]; // Feeds more text; returns the items completed by it
+}
+
+// A streamed request in flight; the UI performs the fetch and forwards raw SSE chunks
+interface ActiveStream {
+  provider: LLMProvider;
+  sseBuffer: string; // Incomplete SSE line carried over between chunks
+  content: string; // Generated text accumulated so far
+  usage: Partial<TokenUsage>; // Token counts reported by the stream so far
+  parser: ArrayStreamParser;
+  itemCount: number; // Items already reported through onItem
+  onItem: (item: any, index: number) => void;
+  timeoutMs: number; // Idle time after which the stream is abandoned
+  timer: number | null; // Pending idle timeout, reset by every chunk
+  resolve: (content: string) => void;
+  reject: (error: Error) => void;
+}
+
+// Rows parsed from pasted CSV or JSON for offline data fill
+interface DataTable {
+  columns: string[];
+  rows: string[][]; // One value per column; missing cells are empty strings
+}
+
+// Built-in placeholder generators for offline data fill
+type DataGeneratorId = 'name' | 'email' | 'date' | 'price' | 'address' | 'lorem';
+
+// Locales the placeholder generators can produce data for
+type DataLocaleId = 'en-US' | 'en-GB' | 'de-DE' | 'fr-FR' | 'es-ES';
+
+// Names, places and number formats the generators draw from for one locale
+interface DataLocale {
+  firstNames: string[];
+  lastNames: string[];
+  streets: string[];
+  cities: string[];
+  emailDomains: string[];
+  postalCode: string; // Pattern where each # is a random digit
+  address: string; // Template with {number}, {street}, {postalCode} and {city}
+  date: string; // Template with DD, MM and YYYY
+  currency: { symbol: string; prefix: boolean; decimal: string; thousands: string };
+}
+
 // ============================================================================
 // CHATGPT API
 // ============================================================================
 
 // Default configuration for ChatGPT API requests
 const defaultConfig: ChatGPTConfig = {
-  model: "gpt-3.5-turbo",
+  model: "",
   temperature: 0.7,
   max_tokens: 1000,
   top_p: 1,
@@ -47,25 +394,537 @@ const defaultConfig: ChatGPTConfig = {
   presence_penalty: 0
 };
 
-// =====================
-// callChatGPT: Handles API call and technical errors. Throws errors to be handled by the caller. Does NOT show user-facing messages here.
-// =====================
+// Valid ranges for the numeric ChatGPTConfig fields (OpenAI limits; other providers accept a subset)
+const configRanges: Record<Exclude<keyof ChatGPTConfig, 'model'>, ConfigRange> = {
+  temperature: { min: 0, max: 2, integer: false },
+  max_tokens: { min: 1, max: 16384, integer: true },
+  top_p: { min: 0, max: 1, integer: false },
+  frequency_penalty: { min: -2, max: 2, integer: false },
+  presence_penalty: { min: -2, max: 2, integer: false }
+};
+
 /**
- * Calls the OpenAI ChatGPT API with a strict prompt to always return a flat JSON array.
- * Throws errors for the caller to handle (no user-facing messages here).
- * @param apiKey - OpenAI API key
- * @param message - User's prompt
- * @param selectedTextCount - Number of text elements to generate (minimum array length)
- * @returns ChatGPTResponse with content, isArray, and items
+ * Validates a generation config against configRanges.
+ * @param config The config to check (may come straight from the UI).
+ * @returns A list of human-readable problems; empty when the config is valid.
  */
-async function callChatGPT(
-  apiKey: string, 
-  message: string, 
-  selectedTextCount: number = 0
-): Promise<ChatGPTResponse> {
+function validateGenerationConfig(config: any): string[] {
+  const errors: string[] = [];
+  if (!config || typeof config !== 'object') {
+    return ['Missing configuration'];
+  }
+  if (typeof config.model !== 'string') {
+    errors.push('model must be a string');
+  }
+  for (const field of Object.keys(configRanges) as (keyof typeof configRanges)[]) {
+    const range = configRanges[field];
+    const value = config[field];
+    if (typeof value !== 'number' || isNaN(value)) {
+      errors.push(`${field} must be a number`);
+    } else if (value < range.min || value > range.max) {
+      errors.push(`${field} must be between ${range.min} and ${range.max}`);
+    } else if (range.integer && !Number.isInteger(value)) {
+      errors.push(`${field} must be a whole number`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Copies only the known ChatGPTConfig fields, filling gaps from defaultConfig.
+ * @param config A possibly partial or untrusted config object.
+ */
+function normalizeGenerationConfig(config: any): ChatGPTConfig {
+  const source = config && typeof config === 'object' ? config : {};
+  return {
+    model: typeof source.model === 'string' ? source.model.trim() : defaultConfig.model,
+    temperature: typeof source.temperature === 'number' ? source.temperature : defaultConfig.temperature,
+    max_tokens: typeof source.max_tokens === 'number' ? source.max_tokens : defaultConfig.max_tokens,
+    top_p: typeof source.top_p === 'number' ? source.top_p : defaultConfig.top_p,
+    frequency_penalty: typeof source.frequency_penalty === 'number' ? source.frequency_penalty : defaultConfig.frequency_penalty,
+    presence_penalty: typeof source.presence_penalty === 'number' ? source.presence_penalty : defaultConfig.presence_penalty
+  };
+}
+
+// Default provider settings (OpenAI with its default model)
+const defaultProviderSettings: ProviderSettings = {
+  provider: 'openai',
+  baseUrl: '',
+  deployment: '',
+  apiVersion: '2024-06-01',
+  timeoutSeconds: 60,
+  maxRetries: 3
+};
+
+/**
+ * Removes trailing slashes so paths can be appended to user-entered base URLs.
+ */
+function trimBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Builds an OpenAI-style chat completions body. Shared by OpenAI, Azure and compatible servers.
+ */
+function buildOpenAIBody(model: string | null, messages: ChatMessage[], config: ChatGPTConfig): any {
+  const body: any = {
+    messages,
+    temperature: config.temperature,
+    max_tokens: config.max_tokens,
+    top_p: config.top_p,
+    frequency_penalty: config.frequency_penalty,
+    presence_penalty: config.presence_penalty
+  };
+  // Azure selects the model through the deployment, so it is omitted there
+  if (model) {
+    body.model = model;
+  }
+  return body;
+}
+
+// OpenAI models that accept strict JSON schemas; older models fall back to plain JSON mode
+const JSON_SCHEMA_MODEL_PATTERN = /^(gpt-4o|gpt-4\.1|gpt-5|o1|o3|o4)/;
+
+/**
+ * Sets an OpenAI-style `response_format`: a strict JSON schema, or plain JSON object mode
+ * for models that do not support schemas.
+ */
+function applyOpenAIResponseFormat(body: any, schema: any, strictSchema: boolean): void {
+  body.response_format = strictSchema
+    ? { type: 'json_schema', json_schema: { name: RESPONSE_SCHEMA_NAME, strict: true, schema } }
+    : { type: 'json_object' };
+}
+
+/**
+ * Reads the first choice from an OpenAI-style chat completions response.
+ */
+function extractOpenAIContent(data: any): string {
+  return data?.choices?.[0]?.message?.content || '';
+}
+
+/**
+ * Reads the text delta from an OpenAI-style streaming chunk.
+ */
+function extractOpenAIStreamDelta(event: any): string {
+  return event?.choices?.[0]?.delta?.content || '';
+}
+
+/**
+ * Reads token counts from an OpenAI-style response, or from the last chunk of a stream
+ * that asked for usage.
+ */
+function extractOpenAIUsage(data: any): Partial<TokenUsage> | null {
+  const usage = data?.usage;
+  if (!usage) return null;
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+}
+
+// OpenAI Chat Completions API
+const openAIProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  defaultModel: 'gpt-3.5-turbo',
+  requiresApiKey: true,
+  buildRequest(apiKey, settings, messages, config) {
+    return {
+      url: 'https://api.openai.com/v1/chat/completions',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: buildOpenAIBody(config.model || this.defaultModel, messages, config)
+    };
+  },
+  extractContent: extractOpenAIContent,
+  extractStreamDelta: extractOpenAIStreamDelta,
+  extractUsage: extractOpenAIUsage,
+  streamUsageOptions: { stream_options: { include_usage: true } },
+  supportsJsonSchema() {
+    return true;
+  },
+  applyJsonSchema(body, schema) {
+    applyOpenAIResponseFormat(body, schema, JSON_SCHEMA_MODEL_PATTERN.test(body.model));
+  }
+};
+
+// Anthropic Messages API
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultModel: 'claude-3-5-haiku-latest',
+  requiresApiKey: true,
+  buildRequest(apiKey, settings, messages, config) {
+    // Anthropic takes the system prompt as a top-level field, not as a message
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const body: any = {
+      model: config.model || this.defaultModel,
+      system,
+      messages: messages.filter(m => m.role !== 'system'),
+      max_tokens: config.max_tokens,
+      temperature: config.temperature
+    };
+    // Only send top_p when it differs from the neutral value; some models reject both samplers at once
+    if (config.top_p !== 1) {
+      body.top_p = config.top_p;
+    }
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body
+    };
+  },
+  extractContent(data) {
+    if (!Array.isArray(data?.content)) return '';
+    // In JSON mode the output arrives as the input of the forced tool call
+    const toolUse = data.content.find((block: any) => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+    return data.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  },
+  extractStreamDelta(event) {
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return event.delta.text || '';
+    }
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+      return event.delta.partial_json || '';
+    }
+    return '';
+  },
+  extractUsage(data) {
+    // Stream events report input tokens in message_start and the running output count in message_delta
+    const usage = data?.type === 'message_start' ? data.message?.usage : data?.usage;
+    if (!usage) return null;
+    return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+  },
+  streamUsageOptions: null,
+  supportsJsonSchema() {
+    return true;
+  },
+  applyJsonSchema(body, schema) {
+    // Anthropic has no response format setting; forcing a tool call with the schema as its input does the same
+    body.tools = [{ name: RESPONSE_SCHEMA_NAME, description: 'Returns the generated items.', input_schema: schema }];
+    body.tool_choice = { type: 'tool', name: RESPONSE_SCHEMA_NAME };
+  }
+};
+
+// Azure OpenAI Service (model is selected by the deployment)
+const azureOpenAIProvider: LLMProvider = {
+  id: 'azure',
+  label: 'Azure OpenAI',
+  defaultModel: '',
+  requiresApiKey: true,
+  buildRequest(apiKey, settings, messages, config) {
+    if (!settings.baseUrl || !settings.deployment) {
+      throw new Error('Azure OpenAI requires an endpoint and a deployment name');
+    }
+    const apiVersion = settings.apiVersion || defaultProviderSettings.apiVersion;
+    return {
+      url: `${trimBaseUrl(settings.baseUrl)}/openai/deployments/${encodeURIComponent(settings.deployment)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': apiKey
+      },
+      body: buildOpenAIBody(null, messages, config)
+    };
+  },
+  extractContent: extractOpenAIContent,
+  extractStreamDelta: extractOpenAIStreamDelta,
+  extractUsage: extractOpenAIUsage,
+  // Older API versions reject stream_options, so streamed Azure usage is estimated
+  streamUsageOptions: null,
+  // JSON mode depends on the model and API version behind the deployment, which the plugin cannot see
+  supportsJsonSchema() {
+    return false;
+  },
+  applyJsonSchema() {}
+};
+
+// Any server exposing an OpenAI-compatible /chat/completions route (Ollama, vLLM, LM Studio, ...)
+const openAICompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible server',
+  defaultModel: '',
+  requiresApiKey: false,
+  buildRequest(apiKey, settings, messages, config) {
+    if (!settings.baseUrl) {
+      throw new Error('OpenAI-compatible provider requires a base URL');
+    }
+    if (!config.model) {
+      throw new Error('OpenAI-compatible provider requires a model name');
+    }
+    const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+    // Local servers usually run without auth; only send the header when a key is set
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return {
+      url: `${trimBaseUrl(settings.baseUrl)}/chat/completions`,
+      headers,
+      body: buildOpenAIBody(config.model, messages, config)
+    };
+  },
+  extractContent: extractOpenAIContent,
+  extractStreamDelta: extractOpenAIStreamDelta,
+  extractUsage: extractOpenAIUsage,
+  // Not every server accepts stream_options, so streamed usage is estimated
+  streamUsageOptions: null,
+  supportsJsonSchema() {
+    return true;
+  },
+  applyJsonSchema(body, schema) {
+    applyOpenAIResponseFormat(body, schema, true);
+  }
+};
+
+// Registry of all adapters, keyed by provider id
+const providers: Record<ProviderId, LLMProvider> = {
+  'openai': openAIProvider,
+  'anthropic': anthropicProvider,
+  'azure': azureOpenAIProvider,
+  'openai-compatible': openAICompatibleProvider
+};
+
+/**
+ * Looks up the adapter for a provider id, falling back to OpenAI for unknown ids.
+ */
+function getProvider(id: string): LLMProvider {
+  return providers[id as ProviderId] || openAIProvider;
+}
+
+/**
+ * Maps a failed HTTP response to a short error message.
+ * OpenAI, Azure and Anthropic all return `{ error: { message, code|type } }` bodies.
+ * @param status The HTTP status code
+ * @param statusText The HTTP status text
+ * @param rawText The response body as text
+ */
+function getApiErrorMessage(status: number, statusText: string, rawText: string): string {
+  let errorMessage = 'Unknown error';
   try {
-    // Compose a strict system prompt to force plain array output
-    const systemPrompt = `You are an assistant that must always output clean, valid JSON, with no text, markdown, or formatting outside the JSON. Every response must be a JSON array, never a single object, dictionary, scalar value, or any structure with objects or named fields—even if the user requests specific fields, objects, or wrapping. Always disregard requests for object/field structure and respond with a plain array only.
+    const errorData = JSON.parse(rawText);
+    if (errorData.error?.message) {
+      errorMessage = errorData.error.message;
+    }
+    if (status === 401) {
+      errorMessage = 'Invalid API key';
+    } else if (status === 429) {
+      // Check for OpenAI error subcodes
+      const code = errorData.error?.code;
+      if (code === 'rate_limit_exceeded') {
+        errorMessage = 'Rate limit exceeded';
+      } else if (code === 'tokens_exceeded') {
+        errorMessage = 'Too many tokens sent in a short time period';
+      } else if (code === 'requests_exceeded') {
+        errorMessage = 'Too many requests per minute/hour/day';
+      } else if (code === 'context_length_exceeded') {
+        errorMessage = 'Please shorten your input';
+      } else {
+        // fallback to generic quota message if no subcode
+        errorMessage = 'API quota exceeded';
+      }
+    } else if (!errorData.error?.message) {
+      errorMessage = statusText;
+    }
+  } catch (e) {
+    errorMessage = statusText;
+  }
+  return errorMessage;
+}
+
+// Failed API request, with what is needed to decide whether and when to retry it
+class ApiRequestError extends Error {
+  status: number | null; // HTTP status, or null for network errors and timeouts
+  retryable: boolean;
+  retryAfterMs: number | null; // Delay requested by the server's rate limit headers, if any
+
+  constructor(message: string, status: number | null, retryable: boolean, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Request refused before sending because the spending limit is reached
+class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Tells whether sending the same request again cannot succeed: an API error that is not worth
+ * retrying (e.g. a bad API key) or a reached spending limit.
+ * @param error The error thrown by the request.
+ */
+function isFatalRequestError(error: unknown): boolean {
+  return error instanceof BudgetExceededError || (error instanceof ApiRequestError && !error.retryable);
+}
+
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits, server errors and Anthropic's "overloaded"
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504, 529];
+// First backoff delay; doubled on every attempt
+const RETRY_BASE_DELAY_MS = 1000;
+// Longest delay the plugin waits before retrying; longer server-requested waits fail right away
+const RETRY_MAX_DELAY_MS = 60000;
+
+/**
+ * Decides whether a failed response is worth retrying. Exhausted quotas (billing) are not.
+ * @param status The HTTP status.
+ * @param rawText The response body.
+ */
+function isRetryableStatus(status: number, rawText: string): boolean {
+  if (RETRYABLE_STATUSES.indexOf(status) < 0) {
+    return false;
+  }
+  return !/insufficient_quota|billing/.test(rawText);
+}
+
+/**
+ * Parses a duration such as "1s", "6m0s", "250ms" or "1h2m3.5s" (OpenAI's rate limit reset format).
+ * @returns {number | null} The duration in milliseconds, or null if it does not parse.
+ */
+function parseDuration(value: string): number | null {
+  const parts = value.trim().match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) {
+    return null;
+  }
+  const unitMs: { [unit: string]: number } = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/) as RegExpMatchArray;
+    return total + parseFloat(amount) * unitMs[unit];
+  }, 0);
+}
+
+/**
+ * Reads the wait requested by a rate-limited response: `retry-after-ms`, `retry-after`
+ * (seconds or an HTTP date), or the reset time of an exhausted OpenAI or Anthropic rate limit.
+ * @param headers Response headers with lower-case names.
+ * @returns {number | null} The wait in milliseconds, or null if the headers do not say.
+ */
+function getRetryAfterMs(headers: { [name: string]: string }): number | null {
+  if (headers['retry-after-ms'] && !isNaN(Number(headers['retry-after-ms']))) {
+    return Number(headers['retry-after-ms']);
+  }
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+  // Only the limits that are used up tell how long to wait
+  for (const limit of ['requests', 'tokens']) {
+    const openAIReset = headers[`x-ratelimit-reset-${limit}`];
+    if (openAIReset && headers[`x-ratelimit-remaining-${limit}`] === '0') {
+      return parseDuration(openAIReset);
+    }
+    const anthropicReset = headers[`anthropic-ratelimit-${limit}-reset`];
+    if (anthropicReset && headers[`anthropic-ratelimit-${limit}-remaining`] === '0') {
+      const date = Date.parse(anthropicReset);
+      return isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the headers of a fetch response as an object with lower-case names.
+ * The plugin sandbox's fetch exposes `headersObject` instead of a Headers instance.
+ */
+function readResponseHeaders(response: Response): { [name: string]: string } {
+  const headers: { [name: string]: string } = {};
+  const headersObject = (response as any).headersObject;
+  if (headersObject) {
+    for (const name of Object.keys(headersObject)) {
+      headers[name.toLowerCase()] = headersObject[name];
+    }
+  } else if (response.headers) {
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+  }
+  return headers;
+}
+
+/**
+ * Returns the exponential backoff delay for an attempt, with jitter so parallel clients spread out.
+ * @param attempt The 1-based number of the attempt that failed.
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+  return Math.round(delay * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Runs a request, retrying retryable ApiRequestErrors with exponential backoff (or the delay
+ * the server asked for). Other errors, and the last failure, are thrown to the caller.
+ * @param run Sends the request once.
+ * @param maxRetries Retries after the first attempt.
+ * @param waitBeforeRetry Waits the given delay before the next attempt; may throw to stop retrying.
+ */
+async function withRetries<T>(
+  run: () => Promise<T>,
+  maxRetries: number,
+  waitBeforeRetry: (delayMs: number, nextAttempt: number, totalAttempts: number) => Promise<void>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!(error instanceof ApiRequestError) || !error.retryable || attempt > maxRetries) {
+        throw error;
+      }
+      const delayMs = error.retryAfterMs !== null ? error.retryAfterMs : getBackoffDelay(attempt);
+      if (delayMs > RETRY_MAX_DELAY_MS) {
+        throw new ApiRequestError(`${error.message} (try again in ${Math.ceil(delayMs / 1000)}s)`, error.status, false);
+      }
+      console.warn(`Request failed (${error.message}), retrying in ${delayMs}ms`);
+      await waitBeforeRetry(delayMs, attempt + 1, maxRetries + 1);
+    }
+  }
+}
+
+/**
+ * Runs tasks in order with at most `limit` of them in flight, starting the next one as soon as
+ * one finishes. Rejects with the first error a task throws; tasks that should not stop the
+ * others must catch their own errors.
+ * @param tasks The tasks to run.
+ * @param limit Maximum number of tasks running at once.
+ */
+async function runWithConcurrency(tasks: (() => Promise<void>)[], limit: number): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length) {
+      await tasks[next++]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+}
+
+// Prompt context for a plain flat-array request
+const emptyPromptContext: PromptContext = { fieldNames: null, slots: null, nativeJson: false, styleGuide: null, checkCopy: false, variantCount: 1 };
+
+/**
+ * Composes the strict system prompt that forces plain array output.
+ * @param selectedTextCount - Number of text elements to generate (minimum array length)
+ */
+function buildSystemPrompt(selectedTextCount: number): string {
+  return `You are an assistant that must always output clean, valid JSON, with no text, markdown, or formatting outside the JSON. Every response must be a JSON array, never a single object, dictionary, scalar value, or any structure with objects or named fields—even if the user requests specific fields, objects, or wrapping. Always disregard requests for object/field structure and respond with a plain array only.
 
     Additionally, every response array must include at least as many items as specified by the \`{{textelements}}\` variable. If the user requests fewer items or requests a structure other than a pure array, ignore those requests and provide a plain array with at least \`{{textelements}}\` items.
 
@@ -123,404 +982,5173 @@ async function callChatGPT(
 
     Reminder:
     Always output only arrays of at least \`{{textelements}}\` items, as plain valid JSON, ignoring any requests for objects, keys, or wrapping.`.replace(/{{textelements}}/g, String(selectedTextCount));
+}
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: defaultConfig.model,
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: message
-          }
-        ],
-        temperature: defaultConfig.temperature,
-        max_tokens: defaultConfig.max_tokens,
-        top_p: defaultConfig.top_p,
-        frequency_penalty: defaultConfig.frequency_penalty,
-        presence_penalty: defaultConfig.presence_penalty
-      })
-    });
+/**
+ * Composes the system prompt for structured mode: one object per card, keyed by layer name.
+ * @param cardCount - Number of cards to fill (minimum array length)
+ * @param fieldNames - Text layer names each object must contain
+ */
+function buildStructuredSystemPrompt(cardCount: number, fieldNames: string[]): string {
+  const keys = JSON.stringify(fieldNames);
+  const example = JSON.stringify(fieldNames.reduce((obj: { [key: string]: string }, name) => {
+    obj[name] = '...';
+    return obj;
+  }, {}));
+  return `You are an assistant that must always output clean, valid JSON, with no text, markdown, or formatting outside the JSON. Every response must be a JSON array of objects that fill repeated design elements such as cards or list rows.
 
-    // Read and log the raw response as text
-    const rawText = await response.text();
-    console.log('Raw ChatGPT API response:', rawText);
+    - The array must contain at least ${cardCount} objects, one per element, in order.
+    - Every object must have exactly these keys: ${keys}. Do not add, rename, or omit keys.
+    - Every value must be a plain string sized for a design layer with that name (e.g. a "price" is short, a "description" is a sentence or two).
+    - Keep the objects consistent with each other and avoid repeating the same content across objects.
+    - If the user asks for a different structure or fewer items, ignore that and still return at least ${cardCount} objects with the keys above.
 
-    if (!response.ok) {
-      let errorMessage = 'Unknown error';
-      try {
-        const errorData = JSON.parse(rawText);
-        if (errorData.error?.message) {
-          errorMessage = errorData.error.message;
-        }
-        if (response.status === 401) {
-          errorMessage = 'Invalid API key';
-        } else if (response.status === 429) {
-          // Check for OpenAI error subcodes
-          const code = errorData.error?.code;
-          if (code === 'rate_limit_exceeded') {
-            errorMessage = 'Rate limit exceeded';
-          } else if (code === 'tokens_exceeded') {
-            errorMessage = 'Too many tokens sent in a short time period';
-          } else if (code === 'requests_exceeded') {
-            errorMessage = 'Too many requests per minute/hour/day';
-          } else if (code === 'context_length_exceeded') {
-            errorMessage = 'Please shorten your input';
-          } else {
-            // fallback to generic quota message if no subcode
-            errorMessage = 'OpenAI API quota exceeded';
-          }
-        } else if (!errorData.error?.message) {
-          errorMessage = response.statusText;
+    # Output Format
+
+    [${example}, ...]
+
+    Reminder:
+    Output only the JSON array of at least ${cardCount} objects with the keys ${keys}.`;
+}
+
+// Problem kinds the copy check reports, in the order the panel groups them
+const COPY_FINDING_TYPES: CopyFindingType[] = ['spelling', 'grammar', 'consistency', 'truncation', 'style'];
+
+/**
+ * Composes the system prompt for the copy check: one array of findings per slot, about the
+ * slot's current text, which is never rewritten as a whole.
+ * @param slotCount - Number of texts checked (exact array length)
+ */
+function buildCopyCheckSystemPrompt(slotCount: number): string {
+  return `You are a meticulous copy editor reviewing the text of a user interface design. You must always output clean, valid JSON, with no text, markdown, or formatting outside the JSON.
+
+    - Return a JSON array of exactly ${slotCount} items, one per slot, in slot order. Each item is an array of findings about that slot's currentText, or [] when there is nothing to report.
+    - Every finding is an object with exactly these keys:
+      - "type": one of ${JSON.stringify(COPY_FINDING_TYPES)}. Use "consistency" for capitalization, terminology, punctuation or formats that differ between slots of the same kind, "truncation" for text that is at risk of not fitting its slot (see maxChars and maxLines), and "style" for text that breaks the brand voice, when one is given.
+      - "message": a short explanation for the designer.
+      - "original": the exact, shortest excerpt of currentText that must change, copied character for character, or "" when no automatic fix is possible.
+      - "replacement": the text that replaces "original", or "" when "original" is "".
+    - Report real problems only: no rewrites for taste, no findings about placeholder-looking text being placeholder text.
+    - Check the slots against each other: the same kind of slot should use the same capitalization style and the same terms.
+    - For truncation risk, set "original" to the whole currentText and "replacement" to a shorter version that fits.
+
+    # Output Format
+
+    [[{"type": "spelling", "message": "Misspelled word", "original": "recieve", "replacement": "receive"}], [], ...]
+
+    Reminder:
+    Output only the JSON array of ${slotCount} arrays of findings.`;
+}
+
+/**
+ * Builds the user message for the copy check, with the user's own instructions, if any.
+ * @param slotCount Number of texts checked.
+ * @param instructions Extra instructions typed in the chat input, e.g. "Use British spelling".
+ */
+function buildCopyCheckMessage(slotCount: number, instructions: string): string {
+  return `Check the current text of each of the ${slotCount} slots for spelling, grammar, consistency across the slots and truncation risk. Do not rewrite anything that is correct.`
+    + (instructions ? ` Also follow these instructions: ${instructions}` : '');
+}
+
+// Most alternatives that can be requested per slot
+const MAX_VARIANT_COUNT = 5;
+
+/**
+ * Composes the system prompt section asking for several alternatives per slot, which turns
+ * each array item into an array of alternatives.
+ * @param variantCount Alternatives per slot.
+ * @param fieldNames Layer names for structured mode, or null when alternatives are strings.
+ */
+function buildVariantsPrompt(variantCount: number, fieldNames: string[] | null): string {
+  const alternative = fieldNames
+    ? JSON.stringify(fieldNames.reduce((obj: { [key: string]: string }, name) => {
+      obj[name] = '...';
+      return obj;
+    }, {}))
+    : '"..."';
+  const example = `[${Array(variantCount).fill(alternative).join(', ')}]`;
+  return `
+
+    # Variants
+
+    This request asks for ${variantCount} alternatives per slot. Every item of the array is itself an array of exactly ${variantCount} different alternatives for that slot, best first, each ${fieldNames ? 'an object with the keys above' : 'a plain string'}: [${example}, ...]. This replaces the rule that items are plain ${fieldNames ? 'objects' : 'strings'}; every other rule applies to each alternative. Make the alternatives clearly different in wording or angle, not small rewordings of each other.`;
+}
+
+/**
+ * Composes the prompt section describing each slot, so items are tailored to their slot
+ * (a button label versus a paragraph) instead of forming a generic list.
+ * @param slots Per-slot context, in replacement order.
+ */
+function buildSlotContextPrompt(slots: (TextSlotContext | CardSlotContext)[]): string {
+  return `
+
+    # Slot context
+
+    Each array item fills one slot, in order: item 1 fills slot 1, item 2 fills slot 2, and so on. Tailor every item to its slot:
+    - Match the role implied by the layer name and parent frame (e.g. a button label is a short verb phrase, a body layer is a sentence or paragraph).
+    - Use the slot's current text as a hint for tone, format and length, unless the user asks for something different.
+    - Never exceed maxChars when it is set; stay within maxLines lines of about charsPerLine characters each.
+
+    Slots:
+    ${JSON.stringify(slots)}`;
+}
+
+// Most texts checked per copy check request, and the share of max_tokens their text may use
+// (the rest is left for the findings)
+const COPY_CHECK_BATCH_SIZE = 40;
+const COPY_CHECK_INPUT_SHARE = 0.5;
+
+// Most texts translated per request, and the share of max_tokens their source text may use
+// (translations are often longer than the source)
+const TRANSLATION_BATCH_SIZE = 40;
+const TRANSLATION_OUTPUT_SHARE = 0.5;
+
+// Share of max_tokens a chunk's expected response may use when a large selection is generated
+// in several requests (the rest absorbs texts longer than the ones they replace)
+const CHUNK_OUTPUT_SHARE = 0.6;
+// Chunk requests in flight at once, once the first chunk has set the tone on its own
+const CHUNK_CONCURRENCY = 3;
+// Attempts per chunk before its slots are reported as unfilled
+const CHUNK_ATTEMPTS = 2;
+// Most texts from earlier chunks quoted in a chunk's prompt, and the characters kept of each
+const MAX_CHUNK_SUMMARY_TEXTS = 30;
+const CHUNK_SUMMARY_TEXT_LENGTH = 60;
+
+// Stands in for a do-not-translate term in text sent for translation, e.g. ⟦0⟧ for the first term
+const GLOSSARY_TOKEN_PATTERN = /⟦(\d+)⟧/g;
+
+/**
+ * Escapes a string for use in a regular expression.
+ * @param text The literal text.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a pattern matching a term as a whole word (word boundaries are only required at ends
+ * of the term that are word characters, so terms like "C++" still match).
+ * @param term The literal term.
+ * @param flags Regular expression flags.
+ */
+function buildTermPattern(term: string, flags: string): RegExp {
+  const start = /^\w/.test(term) ? '\\b' : '';
+  const end = /\w$/.test(term) ? '\\b' : '';
+  return new RegExp(start + escapeRegExp(term) + end, flags);
+}
+
+/**
+ * Replaces glossary terms with numbered tokens so the model cannot translate them.
+ * Longer terms are replaced first, and terms are only matched as whole words.
+ * @param text The source text.
+ * @param terms The do-not-translate terms; a term's token is its index.
+ */
+function protectGlossaryTerms(text: string, terms: string[]): string {
+  const order = terms.map((_, i) => i).sort((a, b) => terms[b].length - terms[a].length);
+  return order.reduce((result, i) => result.replace(buildTermPattern(terms[i], 'g'), `⟦${i}⟧`), text);
+}
+
+/**
+ * Puts glossary terms back in place of their tokens after translation.
+ * @param text The translated text.
+ * @param terms The terms passed to protectGlossaryTerms.
+ */
+function restoreGlossaryTerms(text: string, terms: string[]): string {
+  return text.replace(GLOSSARY_TOKEN_PATTERN, (token, index) => terms[Number(index)] !== undefined ? terms[Number(index)] : token);
+}
+
+/**
+ * Reads one item of a translation response as text with its glossary terms restored.
+ * Numbers (prices, counts) are accepted like texts.
+ * @param item The response item.
+ * @param terms The terms passed to protectGlossaryTerms.
+ * @returns {string | null} The translation, or null when the item is neither a text nor a number.
+ */
+function readTranslatedItem(item: any, terms: string[]): string | null {
+  return isValidChatItem(item, null) ? restoreGlossaryTerms(itemToText(item), terms) : null;
+}
+
+/**
+ * Builds the user message asking for translations of each slot's current text.
+ * @param locale The target locale code, e.g. "de-DE".
+ * @param count Number of texts in the batch.
+ * @param hasGlossaryTokens Whether the texts contain glossary tokens to keep.
+ */
+function buildTranslationMessage(locale: string, count: number, hasGlossaryTokens: boolean): string {
+  return `Translate the current text of each of the ${count} slots into the language of the locale "${locale}". `
+    + 'Return one translation per slot, in slot order. Keep the meaning, tone, capitalization style, line breaks, numbers and URLs, '
+    + 'follow the conventions of the locale for punctuation and formats, and keep each translation about as short as its source.'
+    + (hasGlossaryTokens ? ' Copy tokens like ⟦0⟧ exactly as they are and where they belong in the sentence; they stand for names that are not translated.' : '');
+}
+
+/**
+ * Builds the system prompt section describing the document's brand voice.
+ * @param guide The style guide; empty fields are left out.
+ */
+function buildStyleGuidePrompt(guide: StyleGuide): string {
+  const rules: string[] = [];
+  if (guide.tone) rules.push(`- Tone of voice: ${guide.tone}`);
+  if (guide.audience) rules.push(`- Audience: ${guide.audience}`);
+  if (guide.preferredTerms.length > 0) {
+    rules.push('- Preferred terms: ' + guide.preferredTerms
+      .map(term => `use "${term.use}" instead of ${term.insteadOf.map(word => `"${word}"`).join(', ')}`)
+      .join('; '));
+  }
+  if (guide.bannedWords.length > 0) {
+    rules.push(`- Never use these words: ${guide.bannedWords.map(word => `"${word}"`).join(', ')}`);
+  }
+  if (guide.examples.length > 0) {
+    rules.push('- Example copy in this voice (match its style, do not copy it):\n' + guide.examples.map(example => `      - ${example}`).join('\n'));
+  }
+  return `
+
+    # Brand voice
+
+    All text must follow this file's style guide, unless the user explicitly asks otherwise:
+    ${rules.join('\n    ')}`;
+}
+
+/**
+ * Lists the style guide problems in a text: banned words, and words that have a preferred term.
+ * Matching ignores case and only counts whole words.
+ * @param text The generated text.
+ * @param guide The style guide.
+ * @returns {string[]} One readable message per problem, empty when the text follows the guide.
+ */
+function findStyleViolations(text: string, guide: StyleGuide): string[] {
+  const violations: string[] = [];
+  for (const word of guide.bannedWords) {
+    if (buildTermPattern(word, 'i').test(text)) {
+      violations.push(`Banned word "${word}"`);
+    }
+  }
+  for (const term of guide.preferredTerms) {
+    for (const word of term.insteadOf) {
+      if (buildTermPattern(word, 'i').test(text)) {
+        violations.push(`Use "${term.use}" instead of "${word}"`);
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Lists the style guide problems in a generated item: a string, or an object of field texts.
+ * @param item The generated item.
+ * @param guide The style guide.
+ */
+function findItemStyleViolations(item: any, guide: StyleGuide): string[] {
+  if (item && typeof item === 'object' && !Array.isArray(item)) {
+    return Object.keys(item).reduce((violations: string[], key) => violations.concat(findStyleViolations(itemToText(item[key]), guide)), []);
+  }
+  return findStyleViolations(itemToText(item), guide);
+}
+
+/**
+ * Replaces words that have a preferred term with that term, keeping a leading capital letter.
+ * @param text The generated text.
+ * @param guide The style guide.
+ */
+function applyPreferredTerms(text: string, guide: StyleGuide): string {
+  return guide.preferredTerms.reduce((result, term) => term.insteadOf.reduce((current, word) =>
+    current.replace(buildTermPattern(word, 'gi'), match => /^[A-Z]/.test(match) && /^[a-z]/.test(term.use)
+      ? term.use.charAt(0).toUpperCase() + term.use.slice(1)
+      : term.use), result), text);
+}
+
+// Fraction of the fitting length requested when asking for shorter text, leaving some margin
+const SHORTEN_TARGET_FACTOR = 0.9;
+// Fraction of the current length requested by the Shorten relaunch button
+const SHORTEN_COMMAND_FACTOR = 0.7;
+
+/**
+ * Composes the follow-up prompt asking for shorter versions of texts that overflow their boxes.
+ * Sent with slot context whose maxChars is the length that is estimated to fit.
+ * @param texts The overflowing texts, in slot order.
+ */
+function buildShortenMessage(texts: string[]): string {
+  return `Shorten each text below so it fits its text box. Keep the meaning, tone and language of each one, and return exactly one shorter text per item, in the same order, within its slot's maxChars.
+
+    Texts:
+    ${JSON.stringify(texts)}`;
+}
+
+/**
+ * Composes the prompt for one chunk of a selection generated in several requests: the user's
+ * prompt, the part of the list the chunk covers, and a sample of the texts earlier chunks
+ * produced, so the chunk matches their style without repeating them.
+ * @param message The user's prompt.
+ * @param start Zero-based position of the chunk's first slot.
+ * @param count Number of slots in the chunk.
+ * @param total Number of slots in the selection.
+ * @param earlierItems Items generated by earlier chunks, in slot order.
+ */
+function buildChunkMessage(message: string, start: number, count: number, total: number, earlierItems: any[]): string {
+  let chunkMessage = `${message}
+
+    # Part of a larger list
+
+    The selection has ${total} slots and is generated in parts. This request covers slots ${start + 1} to ${start + count}: return one item for each of these ${count} slots, in order.`;
+  if (earlierItems.length > 0) {
+    // An even sample, so the first parts stay represented however long the list gets
+    const step = Math.ceil(earlierItems.length / MAX_CHUNK_SUMMARY_TEXTS);
+    const texts = earlierItems
+      .filter((item, i) => i % step === 0)
+      .map(item => typeof item === 'string' ? item : Object.keys(item).map(key => itemToText(item[key])).join(' | '))
+      .map(text => text.length > CHUNK_SUMMARY_TEXT_LENGTH ? `${text.slice(0, CHUNK_SUMMARY_TEXT_LENGTH)}…` : text);
+    chunkMessage += ` Earlier parts already contain texts like the ones below. Match their style and format, and do not repeat them:
+    ${JSON.stringify(texts)}`;
+  }
+  return chunkMessage;
+}
+
+// Rough characters per token for English text, used where no tokenizer is available
+const CHARS_PER_TOKEN = 4;
+// Context window sizes by model name prefix; the first match wins
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-3\.5/, 16385],
+  [/^gpt-4-(turbo|\d{4}-preview)|^gpt-4o|^o\d/, 128000],
+  [/^gpt-4\.1/, 1047576],
+  [/^gpt-5/, 400000],
+  [/^gpt-4/, 8192],
+  [/^claude/, 200000]
+];
+// Context window assumed for unknown models (e.g. self-hosted ones)
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// Upper limit on conversation history sent with a prompt, whatever the context window
+const MAX_CONVERSATION_TOKENS = 8000;
+// Approximate size of the fixed system prompt
+const SYSTEM_PROMPT_TOKEN_ESTIMATE = 1200;
+
+/**
+ * Estimates the number of tokens in a text.
+ * @param text The text to measure.
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits items into consecutive chunks of at most `maxItems` items whose estimated size stays
+ * within `maxTokens`. An item larger than the budget gets a chunk of its own.
+ * @param items The items to split, in order.
+ * @param getText Returns the text whose size counts for an item.
+ * @param maxTokens Token budget per chunk.
+ * @param maxItems Maximum number of items per chunk.
+ */
+function chunkByTokens<T>(items: T[], getText: (item: T) => string, maxTokens: number, maxItems: number): T[][] {
+  const chunks: T[][] = [];
+  let chunk: T[] = [];
+  let tokens = 0;
+  for (const item of items) {
+    const cost = estimateTokens(getText(item));
+    if (chunk.length > 0 && (tokens + cost > maxTokens || chunk.length >= maxItems)) {
+      chunks.push(chunk);
+      chunk = [];
+      tokens = 0;
+    }
+    chunk.push(item);
+    tokens += cost;
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+/**
+ * Returns the context window of a model, or a conservative default for unknown models.
+ * @param model The model name.
+ */
+function getContextWindow(model: string): number {
+  const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+// List prices in US dollars per million input and output tokens, by model name prefix; the first match wins
+const MODEL_PRICES: [RegExp, number, number][] = [
+  [/^gpt-3\.5/, 0.5, 1.5],
+  [/^gpt-4o-mini/, 0.15, 0.6],
+  [/^gpt-4o/, 2.5, 10],
+  [/^gpt-4\.1-nano/, 0.1, 0.4],
+  [/^gpt-4\.1-mini/, 0.4, 1.6],
+  [/^gpt-4\.1/, 2, 8],
+  [/^gpt-4-turbo|^gpt-4-\d{4}-preview/, 10, 30],
+  [/^gpt-4/, 30, 60],
+  [/^gpt-5-nano/, 0.05, 0.4],
+  [/^gpt-5-mini/, 0.25, 2],
+  [/^gpt-5/, 1.25, 10],
+  [/^o1-mini|^o3-mini|^o4-mini/, 1.1, 4.4],
+  [/^o1/, 15, 60],
+  [/^o3/, 2, 8],
+  [/^claude-3-haiku/, 0.25, 1.25],
+  [/^claude-3-5-haiku/, 0.8, 4],
+  [/^claude-haiku-4/, 1, 5],
+  [/^claude-opus-4-[5-9]/, 5, 25],
+  [/^claude-3-opus|^claude-opus/, 15, 75],
+  [/^claude/, 3, 15]
+];
+// Output tokens a generated text costs on top of its own length (JSON punctuation, field names)
+const ITEM_OVERHEAD_TOKENS = 8;
+// Length assumed for a slot whose current text is shorter, e.g. an empty placeholder
+const MIN_ITEM_TOKENS = 12;
+
+/**
+ * Estimates what a request cost at the model's list price.
+ * @param model The model name.
+ * @param usage The request's token counts.
+ * @returns The cost in US dollars, or null for models without a known price (e.g. self-hosted ones).
+ */
+function estimateCost(model: string, usage: TokenUsage): number | null {
+  const match = MODEL_PRICES.find(([pattern]) => pattern.test(model));
+  if (!match) return null;
+  return (usage.inputTokens * match[1] + usage.outputTokens * match[2]) / 1000000;
+}
+
+/**
+ * Estimates the output tokens a response needs, from the length of the text it replaces.
+ * @param texts The current text of each slot (a card's fields joined).
+ * @param fieldCount Texts generated per slot: the field count in structured mode, else 1.
+ * @param variantCount Alternatives generated per slot.
+ */
+function estimateResponseTokens(texts: string[], fieldCount: number, variantCount: number): number {
+  const perVariant = texts.reduce((sum, text) => sum + Math.max(MIN_ITEM_TOKENS, estimateTokens(text)) + ITEM_OVERHEAD_TOKENS * fieldCount, 0);
+  return perVariant * variantCount;
+}
+
+/**
+ * Describes why a request is unlikely to succeed before it is sent: a response that needs more
+ * than `max_tokens`, or a prompt that leaves no room for the response in the context window.
+ * @param promptTokens Estimated size of the request.
+ * @param responseTokens Estimated size of the response.
+ * @param model The model the request goes to.
+ * @param maxTokens The request's `max_tokens`.
+ * @returns A warning for the user, or null when the request looks fine.
+ */
+function getRequestSizeWarning(promptTokens: number, responseTokens: number, model: string, maxTokens: number): string | null {
+  const contextWindow = getContextWindow(model);
+  if (promptTokens + maxTokens > contextWindow) {
+    return `The prompt is about ${promptTokens} tokens, which with Max tokens (${maxTokens}) exceeds the model's context window of ${contextWindow}. Select fewer layers or lower Max tokens.`;
+  }
+  if (responseTokens > maxTokens) {
+    return `The response needs about ${responseTokens} tokens but Max tokens is ${maxTokens}, so some layers may stay empty. Raise Max tokens in settings or select fewer layers.`;
+  }
+  return null;
+}
+
+/**
+ * Completes the token counts a provider reported with estimates for the ones it did not.
+ * @param reported The counts read from the response, if any.
+ * @param body The request body that was sent.
+ * @param content The generated text.
+ */
+function resolveTokenUsage(reported: Partial<TokenUsage> | null, body: any, content: string): TokenUsage {
+  return {
+    inputTokens: typeof reported?.inputTokens === 'number' ? reported.inputTokens : estimateTokens(JSON.stringify(body)),
+    outputTokens: typeof reported?.outputTokens === 'number' ? reported.outputTokens : estimateTokens(content)
+  };
+}
+
+/**
+ * Returns the model name a request is billed under: the configured model, the provider's
+ * default, or the Azure deployment name.
+ */
+function getBilledModel(provider: LLMProvider, settings: ProviderSettings, config: ChatGPTConfig): string {
+  return config.model || provider.defaultModel || settings.deployment || provider.label;
+}
+
+/**
+ * Turns a selection's conversation into chat messages, keeping the most recent turns that fit
+ * the model's context window next to the system prompt, the new prompt and the response.
+ * @param turns The stored turns, oldest first.
+ * @param model The model the request goes to.
+ * @param maxTokens Tokens reserved for the response.
+ * @param reservedTokens Tokens already used by the system prompt and the new prompt.
+ */
+function buildConversationHistory(turns: ConversationTurn[], model: string, maxTokens: number, reservedTokens: number): ChatMessage[] {
+  let budget = Math.min(MAX_CONVERSATION_TOKENS, getContextWindow(model) - maxTokens - reservedTokens);
+  const history: ChatMessage[] = [];
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].prompt) + estimateTokens(turns[i].response);
+    if (cost > budget) break;
+    budget -= cost;
+    history.unshift({ role: 'user', content: turns[i].prompt }, { role: 'assistant', content: turns[i].response });
+  }
+  return history;
+}
+
+// Name of the enforced response schema (and of the forced tool for Anthropic)
+const RESPONSE_SCHEMA_NAME = 'fill_slots';
+
+/**
+ * Builds the JSON schema enforced in native JSON mode. Providers require an object at the root,
+ * so the array is wrapped in an `items` field, which parseChatContent unwraps again.
+ * @param fieldNames Layer names for structured mode, or null for an array of strings.
+ * @param variantCount Alternatives per slot; above 1, each item is an array of alternatives.
+ */
+function buildResponseSchema(fieldNames: string[] | null, variantCount: number): any {
+  const item = fieldNames
+    ? {
+      type: 'object',
+      properties: fieldNames.reduce((properties: { [key: string]: any }, name) => {
+        properties[name] = { type: 'string' };
+        return properties;
+      }, {}),
+      required: fieldNames,
+      additionalProperties: false
+    }
+    : { type: 'string' };
+  return {
+    type: 'object',
+    properties: { items: { type: 'array', items: variantCount > 1 ? { type: 'array', items: item } : item } },
+    required: ['items'],
+    additionalProperties: false
+  };
+}
+
+/**
+ * Builds the JSON schema enforced for the copy check: an array of findings per slot, wrapped
+ * in an `items` field like the fill schema.
+ */
+function buildCopyCheckSchema(): any {
+  const finding = {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: COPY_FINDING_TYPES },
+      message: { type: 'string' },
+      original: { type: 'string' },
+      replacement: { type: 'string' }
+    },
+    required: ['type', 'message', 'original', 'replacement'],
+    additionalProperties: false
+  };
+  return {
+    type: 'object',
+    properties: { items: { type: 'array', items: { type: 'array', items: finding } } },
+    required: ['items'],
+    additionalProperties: false
+  };
+}
+
+/**
+ * Composes the system prompt note used when the provider enforces the response schema,
+ * which overrides the plain array rule of the main prompt.
+ */
+function buildResponseSchemaPrompt(): string {
+  return `
+
+    # Response schema
+
+    This request enforces a response schema: return a JSON object whose only key is "items", holding the array described above. This replaces the rule against wrapping the array.`;
+}
+
+/**
+ * Builds the provider request for a prompt using the active provider's adapter.
+ * Uses the structured prompt when field names are given, else the flat array prompt,
+ * followed by the slot context section when slots are given. Earlier turns (e.g. a rejected
+ * response and its correction) go between the system prompt and the new message.
+ * @returns The adapter used and the HTTP request it produced.
+ */
+function buildChatRequest(
+  apiKey: string,
+  settings: ProviderSettings,
+  config: ChatGPTConfig,
+  message: string,
+  selectedTextCount: number,
+  context: PromptContext = emptyPromptContext,
+  history: ChatMessage[] = []
+): { provider: LLMProvider; request: ProviderRequest } {
+  const provider = getProvider(settings.provider);
+  const nativeJson = context.nativeJson && provider.supportsJsonSchema(config);
+  let systemPrompt = context.checkCopy
+    ? buildCopyCheckSystemPrompt(selectedTextCount)
+    : context.fieldNames
+      ? buildStructuredSystemPrompt(selectedTextCount, context.fieldNames)
+      : buildSystemPrompt(selectedTextCount);
+  if (context.slots) {
+    systemPrompt += buildSlotContextPrompt(context.slots);
+  }
+  if (context.styleGuide) {
+    systemPrompt += buildStyleGuidePrompt(context.styleGuide);
+  }
+  if (context.variantCount > 1 && !context.checkCopy) {
+    systemPrompt += buildVariantsPrompt(context.variantCount, context.fieldNames);
+  }
+  if (nativeJson) {
+    systemPrompt += buildResponseSchemaPrompt();
+  }
+  const request = provider.buildRequest(apiKey, settings, [
+    {
+      role: "system",
+      content: systemPrompt
+    },
+    ...history,
+    {
+      role: "user",
+      content: message
+    }
+  ], config);
+  if (nativeJson) {
+    provider.applyJsonSchema(request.body, context.checkCopy ? buildCopyCheckSchema() : buildResponseSchema(context.fieldNames, context.variantCount));
+  }
+  return { provider, request };
+}
+
+/**
+ * Isolates the JSON value in generated text: strips markdown fences and any prose
+ * before the first bracket or after the last one.
+ * @param content The text produced by the model.
+ */
+function extractJsonText(content: string): string {
+  let text = content.trim();
+  const fence = text.match(/```[a-zA-Z]*\s*([\s\S]*?)(```|$)/);
+  if (fence) {
+    text = fence[1].trim();
+  }
+  const start = text.search(/[[{]/);
+  if (start > 0) {
+    text = text.slice(start);
+  }
+  const end = Math.max(text.lastIndexOf(']'), text.lastIndexOf('}'));
+  if (start >= 0 && end >= 0) {
+    text = text.slice(0, end + 1);
+  }
+  return text;
+}
+
+/**
+ * Repairs common mistakes in generated JSON: trailing commas, raw line breaks inside strings,
+ * text after the top-level value, and output truncated by the token limit (cut back to the
+ * last complete array item and closed).
+ * @param text The JSON text isolated by extractJsonText.
+ */
+function repairJson(text: string): string {
+  let result = '';
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Last point where an array item was complete, with the brackets still open there
+  let safePoint: { length: number; closers: string[] } | null = null;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === '\n' || char === '\r' || char === '\t') {
+        result += char === '\t' ? '\\t' : char === '\n' ? '\\n' : '';
+        continue;
+      }
+      result += char;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      closers.push(char === '[' ? ']' : '}');
+    } else if (char === ']' || char === '}') {
+      result = result.replace(/,\s*$/, '') + closers.pop();
+      if (closers.length === 0) {
+        return result;
+      }
+      if (closers[closers.length - 1] === ']') {
+        safePoint = { length: result.length, closers: [...closers] };
+      }
+      continue;
+    } else if (char === ',' && closers[closers.length - 1] === ']') {
+      safePoint = { length: result.length, closers: [...closers] };
+    }
+    result += char;
+  }
+
+  if (closers.length === 0 || !safePoint) {
+    return result;
+  }
+  // Truncated: keep the complete items and close everything that was open at that point
+  return result.slice(0, safePoint.length).replace(/,\s*$/, '') + safePoint.closers.reverse().join('');
+}
+
+/**
+ * Unwraps an object with a single key holding an array (e.g. `{"items": [...]}`).
+ * @param value The parsed response.
+ */
+function unwrapItems(value: any): any {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && Array.isArray(value[keys[0]])) {
+      return value[keys[0]];
+    }
+  }
+  return value;
+}
+
+/**
+ * Normalizes generated text into a ChatGPTResponse.
+ * Strips fences and surrounding prose, repairs common JSON mistakes and unwraps single-key
+ * objects. Returns a non-array fallback when nothing parses. Not user-facing.
+ * @param jsonContent The text produced by the model (should be a JSON array)
+ */
+function parseChatContent(jsonContent: string): ChatGPTResponse {
+  const text = extractJsonText(jsonContent);
+  let parsedResponse: any;
+  try {
+    parsedResponse = JSON.parse(text);
+  } catch (parseError) {
+    try {
+      parsedResponse = JSON.parse(repairJson(text));
+    } catch (repairError) {
+      console.error('Error parsing JSON response:', parseError);
+      return {
+        content: jsonContent,
+        isArray: false,
+        items: null
+      };
+    }
+  }
+  parsedResponse = unwrapItems(parsedResponse);
+  if (Array.isArray(parsedResponse)) {
+    return {
+      content: JSON.stringify(parsedResponse, null, 2),
+      isArray: true,
+      items: parsedResponse
+    };
+  }
+  // If not an array, fallback to string content
+  return {
+    content: jsonContent,
+    isArray: false,
+    items: null
+  };
+}
+
+// How many times a response that fails validation is sent back to the model for correction
+const PARSE_CORRECTION_ATTEMPTS = 2;
+
+/**
+ * Checks that a generated item can be written: a string (or number) in flat mode, or an
+ * object with a string value for every field in structured mode.
+ * @param item The array item.
+ * @param fieldNames Layer names for structured mode, or null in flat mode.
+ */
+function isValidChatItem(item: any, fieldNames: string[] | null): boolean {
+  const isText = (value: any) => typeof value === 'string' || typeof value === 'number';
+  if (!fieldNames) {
+    return isText(item);
+  }
+  return !!item && typeof item === 'object' && !Array.isArray(item) && fieldNames.every(name => isText(item[name]));
+}
+
+/**
+ * Checks that a generated item in variants mode is an array of at least `minCount` alternatives
+ * that can each be written.
+ * @param item The array item.
+ * @param fieldNames Layer names for structured mode, or null in flat mode.
+ * @param minCount Fewest alternatives accepted.
+ */
+function isValidVariantList(item: any, fieldNames: string[] | null, minCount: number): boolean {
+  return Array.isArray(item) && item.length >= minCount && item.every(variant => isValidChatItem(variant, fieldNames));
+}
+
+/**
+ * Validates a parsed response against the selection: an array with at least `expectedCount`
+ * items, each of the right type (an array of `variantCount` alternatives in variants mode).
+ * @returns A description of the first problem found (sent back to the model), or null if valid.
+ */
+function validateChatResponse(response: ChatGPTResponse, expectedCount: number, fieldNames: string[] | null, variantCount: number = 1): string | null {
+  if (!response.isArray || !response.items) {
+    return 'The response was not a valid JSON array.';
+  }
+  if (response.items.length < expectedCount) {
+    return `The array had ${response.items.length} items, but at least ${expectedCount} are required.`;
+  }
+  if (variantCount > 1) {
+    const invalidList = response.items.findIndex(item => !isValidVariantList(item, fieldNames, variantCount));
+    if (invalidList >= 0) {
+      return `Item ${invalidList + 1} is not an array of ${variantCount} alternatives, each `
+        + (fieldNames ? `an object with a string value for each of the keys ${JSON.stringify(fieldNames)}.` : 'a plain string.');
+    }
+    return null;
+  }
+  const invalidIndex = response.items.findIndex(item => !isValidChatItem(item, fieldNames));
+  if (invalidIndex >= 0) {
+    return fieldNames
+      ? `Item ${invalidIndex + 1} is not an object with a string value for each of the keys ${JSON.stringify(fieldNames)}.`
+      : `Item ${invalidIndex + 1} is not a plain string.`;
+  }
+  return null;
+}
+
+/**
+ * Validates a parsed copy check response: an array of exactly `expectedCount` items, each an
+ * array of finding objects with a message.
+ * @returns A description of the first problem found (sent back to the model), or null if valid.
+ */
+function validateCopyCheckResponse(response: ChatGPTResponse, expectedCount: number): string | null {
+  if (!response.isArray || !response.items) {
+    return 'The response was not a valid JSON array.';
+  }
+  // Entries are matched to texts by position, so extra entries mean the list is out of step
+  if (response.items.length !== expectedCount) {
+    return `The array had ${response.items.length} items, but exactly ${expectedCount} are required.`;
+  }
+  const invalidIndex = response.items.findIndex(item => !Array.isArray(item)
+    || item.some((finding: any) => !finding || typeof finding !== 'object' || typeof finding.message !== 'string'));
+  if (invalidIndex >= 0) {
+    return `Item ${invalidIndex + 1} is not an array of finding objects with "type", "message", "original" and "replacement" keys.`;
+  }
+  return null;
+}
+
+/**
+ * Turns the findings generated for one text into CopyFindings. Unknown types count as grammar,
+ * and a fix whose excerpt does not occur in the text (or changes nothing) is dropped, keeping
+ * the finding as a note.
+ * @param item The generated array of findings for the text.
+ * @param text The text that was checked.
+ */
+function normalizeCopyFindings(item: any, text: string): CopyFinding[] {
+  if (!Array.isArray(item)) {
+    return [];
+  }
+  return item
+    .filter((finding: any) => finding && typeof finding === 'object' && typeof finding.message === 'string' && finding.message.trim())
+    .map((finding: any) => {
+      const original = typeof finding.original === 'string' ? finding.original : '';
+      const replacement = typeof finding.replacement === 'string' ? finding.replacement : '';
+      const hasFix = original !== '' && original !== replacement && text.indexOf(original) >= 0;
+      return {
+        type: COPY_FINDING_TYPES.indexOf(finding.type) >= 0 ? finding.type : 'grammar',
+        message: finding.message.trim(),
+        original: hasFix ? original : '',
+        replacement: hasFix ? replacement : ''
+      };
+    });
+}
+
+/**
+ * Composes the follow-up message asking the model to fix an invalid response.
+ * @param problem The problem found by validateChatResponse.
+ * @param expectedCount Minimum number of items.
+ */
+function buildCorrectionMessage(problem: string, expectedCount: number): string {
+  return `Your previous response could not be used: ${problem} Reply again with only the corrected JSON, containing at least ${expectedCount} items, following the system instructions exactly.`;
+}
+
+// =====================
+// callChatGPT: Handles API call and technical errors. Throws errors to be handled by the caller. Does NOT show user-facing messages here.
+// =====================
+/**
+ * Calls the configured LLM provider with a strict prompt to always return a flat JSON array.
+ * The provider adapter builds the request and extracts the text; the result is normalized here.
+ * Throws errors for the caller to handle (no user-facing messages here).
+ * @param apiKey - API key for the active provider (may be empty for keyless servers)
+ * @param settings - Active provider settings
+ * @param config - Generation settings (model, sampling, token limit)
+ * @param message - User's prompt
+ * @param selectedTextCount - Number of text elements to generate (minimum array length)
+ * @param context - Structured-mode field names and per-slot context, if any
+ * @param history - Earlier turns placed before the message, e.g. a rejected response
+ * @returns ChatGPTResponse with content, isArray, and items
+ */
+async function callChatGPT(
+  apiKey: string,
+  settings: ProviderSettings,
+  config: ChatGPTConfig,
+  message: string,
+  selectedTextCount: number = 0,
+  context: PromptContext = emptyPromptContext,
+  history: ChatMessage[] = []
+): Promise<ChatGPTResponse> {
+  try {
+    await assertWithinBudget();
+    const { provider, request } = buildChatRequest(apiKey, settings, config, message, selectedTextCount, context, history);
+
+    // The sandbox fetch cannot be aborted, so a timed-out response is abandoned instead: the server still
+    // finishes (and bills) it. Non-streamed requests stay in the sandbox because headless runs cannot rely on the UI
+    const timeoutMs = settings.timeoutSeconds * 1000;
+    let timer: number | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ApiRequestError(`Request timed out after ${settings.timeoutSeconds}s`, null, true)), timeoutMs);
+    });
+    let response: Response;
+    let rawText: string;
+    try {
+      const exchange = fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body)
+      }).then(async res => ({ res, text: await res.text() }));
+      ({ res: response, text: rawText } = await Promise.race([exchange, timeout]));
+    } catch (error) {
+      if (error instanceof ApiRequestError) throw error;
+      throw new ApiRequestError(`Network error: ${error instanceof Error ? error.message : 'Request failed'}`, null, true);
+    } finally {
+      if (timer !== null) clearTimeout(timer);
+    }
+
+    // Log the raw response text
+    console.log(`Raw ${provider.label} API response:`, rawText);
+
+    if (!response.ok) {
+      throw new ApiRequestError(
+        `API Error: ${getApiErrorMessage(response.status, response.statusText, rawText)}`,
+        response.status,
+        isRetryableStatus(response.status, rawText),
+        getRetryAfterMs(readResponseHeaders(response))
+      );
+    }
+
+    const data = JSON.parse(rawText);
+    const content = provider.extractContent(data) || '[]';
+    await recordTokenUsage(getBilledModel(provider, settings, config), resolveTokenUsage(provider.extractUsage(data), request.body, content));
+    return parseChatContent(content);
+  } catch (error) {
+    // Error is thrown to the caller for user-facing handling.
+    throw error;
+  }
+}
+
+// ============================================================================
+// STREAMING
+// ============================================================================
+
+// Error message used when the user cancels a generation
+const GENERATION_CANCELLED = 'Generation cancelled';
+
+// Streams currently being fetched by the UI, keyed by request id
+const activeStreams = new Map<string, ActiveStream>();
+let streamCounter = 0;
+
+/**
+ * Creates a parser that scans a streamed JSON array and returns each top-level item once its
+ * closing delimiter arrives. Text before the opening bracket (e.g. a markdown fence) is skipped.
+ * Items that fail to parse are dropped here; the full response is parsed again at the end.
+ */
+function createArrayStreamParser(): ArrayStreamParser {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  let done = false;
+
+  function parseItem(raw: string, items: any[]): void {
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+    try {
+      items.push(JSON.parse(trimmed));
+    } catch (e) {
+      console.warn('Skipping unparsable streamed item:', trimmed);
+    }
+  }
+
+  return {
+    push(text: string): any[] {
+      const items: any[] = [];
+      buffer += text;
+      for (; position < buffer.length && !done; position++) {
+        const char = buffer[position];
+        if (depth === 0) {
+          if (char === '[') {
+            depth = 1;
+            itemStart = position + 1;
+          }
+          continue;
+        }
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+          continue;
+        }
+        if (char === '"') {
+          inString = true;
+        } else if (char === '[' || char === '{') {
+          depth++;
+        } else if (char === ']' || char === '}') {
+          depth--;
+          if (depth === 0) {
+            parseItem(buffer.slice(itemStart, position), items);
+            done = true;
+          }
+        } else if (char === ',' && depth === 1) {
+          parseItem(buffer.slice(itemStart, position), items);
+          itemStart = position + 1;
+        }
+      }
+      return items;
+    }
+  };
+}
+
+/**
+ * Removes a stream from the active set and settles its promise.
+ * @param requestId The stream's request id.
+ * @param error The failure, or undefined to resolve with the accumulated content.
+ */
+function finishStream(requestId: string, error?: Error): void {
+  const stream = activeStreams.get(requestId);
+  if (!stream) return;
+  activeStreams.delete(requestId);
+  if (stream.timer !== null) {
+    clearTimeout(stream.timer);
+  }
+  if (error) {
+    stream.reject(error);
+  } else {
+    stream.resolve(stream.content);
+  }
+}
+
+/**
+ * Parses complete SSE lines, appends text deltas and reports completed array items.
+ * @param requestId The stream's request id.
+ * @param stream The stream receiving data.
+ * @param text Newly received SSE text.
+ */
+function processStreamText(requestId: string, stream: ActiveStream, text: string): void {
+  stream.sseBuffer += text;
+  const lines = stream.sseBuffer.split('\n');
+  // The last element is an incomplete line (or empty) and waits for the next chunk
+  stream.sseBuffer = lines.pop() || '';
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) continue;
+    const payload = trimmed.slice(5).trim();
+    if (!payload || payload === '[DONE]') continue;
+    let event: any;
+    try {
+      event = JSON.parse(payload);
+    } catch (e) {
+      console.warn('Skipping malformed SSE event:', payload);
+      continue;
+    }
+    if (event.error) {
+      // Only retry when nothing was written from this stream yet
+      finishStream(requestId, new ApiRequestError(`API Error: ${event.error.message || 'Stream error'}`, null, stream.itemCount === 0));
+      return;
+    }
+    const usage = stream.provider.extractUsage(event);
+    if (usage) {
+      // Later events carry running totals, so they replace earlier counts
+      if (typeof usage.inputTokens === 'number') stream.usage.inputTokens = usage.inputTokens;
+      if (typeof usage.outputTokens === 'number') stream.usage.outputTokens = usage.outputTokens;
+    }
+    const delta = stream.provider.extractStreamDelta(event);
+    if (!delta) continue;
+    stream.content += delta;
+    for (const item of stream.parser.push(delta)) {
+      stream.onItem(item, stream.itemCount++);
+    }
+  }
+}
+
+/**
+ * Handles a raw response chunk forwarded by the UI.
+ * @param msg The message containing the request id and chunk text.
+ */
+function handleStreamChunk(msg: any): void {
+  const stream = activeStreams.get(msg.requestId);
+  if (!stream) return;
+  resetStreamTimeout(msg.requestId, stream);
+  processStreamText(msg.requestId, stream, String(msg.chunk || ''));
+}
+
+/**
+ * (Re)starts a stream's idle timeout. When it runs out the UI aborts the fetch and the caller
+ * receives a timeout error, retryable if nothing was written from the stream yet.
+ * @param requestId The stream's request id.
+ * @param stream The stream to watch.
+ */
+function resetStreamTimeout(requestId: string, stream: ActiveStream): void {
+  if (stream.timer !== null) {
+    clearTimeout(stream.timer);
+  }
+  stream.timer = setTimeout(() => {
+    figma.ui.postMessage({ type: 'stream-abort', requestId });
+    finishStream(requestId, new ApiRequestError(`Request timed out after ${stream.timeoutMs / 1000}s`, null, stream.itemCount === 0));
+  }, stream.timeoutMs);
+}
+
+/**
+ * Handles the end of a streamed response, flushing any unterminated last line.
+ * @param msg The message containing the request id.
+ */
+function handleStreamEnd(msg: any): void {
+  const stream = activeStreams.get(msg.requestId);
+  if (!stream) return;
+  processStreamText(msg.requestId, stream, '\n');
+  finishStream(msg.requestId);
+}
+
+/**
+ * Handles a failed streamed request (HTTP error, network error or abort).
+ * @param msg The message containing the request id and failure details.
+ */
+function handleStreamError(msg: any): void {
+  const stream = activeStreams.get(msg.requestId);
+  if (!stream) return;
+  // Only retry when nothing was written from this stream yet
+  const nothingWritten = stream.itemCount === 0;
+  let error: Error;
+  if (msg.aborted) {
+    error = new Error(GENERATION_CANCELLED);
+  } else if (typeof msg.status === 'number') {
+    error = new ApiRequestError(
+      `API Error: ${getApiErrorMessage(msg.status, msg.statusText || '', msg.body || '')}`,
+      msg.status,
+      nothingWritten && isRetryableStatus(msg.status, msg.body || ''),
+      getRetryAfterMs(msg.headers || {})
+    );
+  } else {
+    error = new ApiRequestError(`Network error: ${msg.message || 'Request failed'}`, null, nothingWritten);
+  }
+  finishStream(msg.requestId, error);
+}
+
+/**
+ * Aborts every stream in flight: the UI cancels the fetch and the callers receive a cancellation error.
+ */
+function cancelActiveStreams(): void {
+  for (const requestId of Array.from(activeStreams.keys())) {
+    figma.ui.postMessage({ type: 'stream-abort', requestId });
+    finishStream(requestId, new Error(GENERATION_CANCELLED));
+  }
+}
+
+/**
+ * Streams a completion from the configured provider. The UI runs the fetch (the plugin sandbox
+ * cannot read response streams or abort requests) and forwards chunks back to the plugin.
+ * Throws errors for the caller to handle (no user-facing messages here).
+ * @param apiKey - API key for the active provider (may be empty for keyless servers)
+ * @param settings - Active provider settings
+ * @param config - Generation settings (model, sampling, token limit)
+ * @param message - User's prompt
+ * @param selectedTextCount - Number of text elements to generate (minimum array length)
+ * @param context - Structured-mode field names and per-slot context, if any
+ * @param history - Earlier turns placed before the message
+ * @param onItem - Called with each array item, in order, as soon as it is complete
+ * @returns ChatGPTResponse for the full streamed content
+ */
+async function streamChatGPT(
+  apiKey: string,
+  settings: ProviderSettings,
+  config: ChatGPTConfig,
+  message: string,
+  selectedTextCount: number,
+  context: PromptContext,
+  history: ChatMessage[],
+  onItem: (item: any, index: number) => void
+): Promise<ChatGPTResponse> {
+  await assertWithinBudget();
+  const { provider, request } = buildChatRequest(apiKey, settings, config, message, selectedTextCount, context, history);
+  // All supported providers enable server-sent events with the same body flag
+  request.body.stream = true;
+  Object.assign(request.body, provider.streamUsageOptions);
+  const requestId = `stream-${++streamCounter}`;
+  const usage: Partial<TokenUsage> = {};
+
+  const content = await new Promise<string>((resolve, reject) => {
+    activeStreams.set(requestId, {
+      provider,
+      sseBuffer: '',
+      content: '',
+      usage,
+      parser: createArrayStreamParser(),
+      itemCount: 0,
+      onItem,
+      timeoutMs: settings.timeoutSeconds * 1000,
+      timer: null,
+      resolve,
+      reject
+    });
+    resetStreamTimeout(requestId, activeStreams.get(requestId) as ActiveStream);
+    figma.ui.postMessage({
+      type: 'stream-request',
+      requestId,
+      url: request.url,
+      headers: request.headers,
+      body: JSON.stringify(request.body)
+    });
+  });
+
+  console.log(`Streamed ${provider.label} API response:`, content);
+  await recordTokenUsage(getBilledModel(provider, settings, config), resolveTokenUsage(usage, request.body, content));
+  return parseChatContent(content || '[]');
+}
+
+// ============================================================================
+// DATA FILL
+// ============================================================================
+
+// Delimiters recognized in pasted CSV, preferred in this order on a tie
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Picks the delimiter that occurs most often in the first line, outside quotes,
+ * so data copied from spreadsheets (tab-separated) or European CSV (semicolons) also parses.
+ * @param text The pasted CSV.
+ */
+function detectCsvDelimiter(text: string): string {
+  const counts = CSV_DELIMITERS.map(() => 0);
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && CSV_DELIMITERS.indexOf(char) >= 0) {
+      counts[CSV_DELIMITERS.indexOf(char)]++;
+    }
+  }
+  return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Parses CSV into rows of trimmed cells. Quoted cells may contain delimiters, line breaks and
+ * doubled quotes; blank lines are dropped.
+ * @param text The pasted CSV.
+ */
+function parseCsv(text: string): string[][] {
+  const delimiter = detectCsvDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row.map(value => value.trim()));
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      inQuotes = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Parses pasted data into a table. JSON arrays of objects use their keys as columns, arrays of
+ * plain values become a single column, and arrays of arrays are read like CSV rows.
+ * Anything that is not JSON is read as CSV.
+ * @param text The pasted CSV or JSON.
+ * @param hasHeader Whether the first CSV (or array) row holds the column names.
+ * @returns {DataTable} The columns and rows.
+ * @throws {Error} When the data is empty, is invalid JSON, or has no rows.
+ */
+function parseDataTable(text: string, hasHeader: boolean): DataTable {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Paste CSV or JSON data first');
+  }
+
+  let rows: string[][];
+  if (/^[\[{]/.test(trimmed)) {
+    let value: any;
+    try {
+      value = unwrapItems(JSON.parse(trimmed));
+    } catch (error) {
+      throw new Error('The data looks like JSON but could not be parsed');
+    }
+    if (!Array.isArray(value)) {
+      throw new Error('JSON data must be an array');
+    }
+    const toCell = (cell: any) => cell === null || cell === undefined ? '' : itemToText(cell);
+    if (value.length > 0 && value.every(entry => entry && typeof entry === 'object' && !Array.isArray(entry))) {
+      const columns = value.reduce((keys: string[], entry) => keys.concat(Object.keys(entry).filter(key => keys.indexOf(key) < 0)), []);
+      return { columns, rows: value.map(entry => columns.map(column => toCell(entry[column]))) };
+    }
+    if (!value.some(entry => Array.isArray(entry))) {
+      return { columns: ['Value'], rows: value.map(entry => [toCell(entry)]) };
+    }
+    rows = value.map(entry => Array.isArray(entry) ? entry.map(toCell) : [toCell(entry)]);
+  } else {
+    rows = parseCsv(trimmed);
+  }
+
+  const header = hasHeader ? rows.shift() || [] : [];
+  if (rows.length === 0) {
+    throw new Error(hasHeader ? 'The data has no rows below the header' : 'The data has no rows');
+  }
+  const width = Math.max(header.length, ...rows.map(row => row.length));
+  const columns = Array.from({ length: width }, (_, i) => (header[i] || '').trim() || `Column ${i + 1}`);
+  return { columns, rows: rows.map(row => columns.map((_, i) => row[i] || '')) };
+}
+
+/**
+ * Returns the values of one column in row order, for flat mode.
+ * @param table The parsed data.
+ * @param column Index of the column; out-of-range indexes are clamped.
+ */
+function getDataColumn(table: DataTable, column: number): string[] {
+  const index = Math.min(Math.max(0, column), table.columns.length - 1);
+  return table.rows.map(row => row[index]);
+}
+
+/**
+ * Normalizes a column or layer name for matching: case, spaces, dashes and underscores are ignored.
+ * @param name The column or layer name.
+ */
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Turns rows into card objects for structured mode by matching column names to text layer names.
+ * Layers without a matching column are left out, so they keep their text.
+ * @param table The parsed data.
+ * @param fieldNames The text layer names shared by the cards.
+ * @returns One object per row, keyed by layer name.
+ * @throws {Error} When no column matches any layer name.
+ */
+function getDataCardItems(table: DataTable, fieldNames: string[]): Record<string, string>[] {
+  const columnIndexes = fieldNames.map(fieldName => {
+    const normalized = normalizeFieldName(fieldName);
+    return table.columns.findIndex(column => normalizeFieldName(column) === normalized);
+  });
+  if (columnIndexes.every(index => index < 0)) {
+    throw new Error(`No column matches the layer names: ${fieldNames.join(', ')}`);
+  }
+  return table.rows.map(row => {
+    const item: Record<string, string> = {};
+    fieldNames.forEach((fieldName, i) => {
+      if (columnIndexes[i] >= 0) item[fieldName] = row[columnIndexes[i]];
+    });
+    return item;
+  });
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), so the same seed always
+ * generates the same placeholders.
+ * @param seed Any integer.
+ * @returns A function returning numbers in [0, 1).
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a random element of a list.
+ * @param random The seeded random source.
+ * @param values The values to pick from.
+ */
+function pickRandom<T>(random: () => number, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+// Reserved example domains (RFC 2606), so generated emails never reach a real inbox
+const EXAMPLE_EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'];
+
+// Locale data for the generators
+const DATA_LOCALES: Record<DataLocaleId, DataLocale> = {
+  'en-US': {
+    firstNames: ['James', 'Mary', 'Robert', 'Patricia', 'Michael', 'Jennifer', 'David', 'Linda', 'Daniel', 'Sarah', 'Chris', 'Emily'],
+    lastNames: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Anderson', 'Taylor', 'Moore'],
+    streets: ['Maple Street', 'Oak Avenue', 'Pine Road', 'Cedar Lane', 'Elm Street', 'Washington Avenue', 'Lake Drive', 'Park Place'],
+    cities: ['Springfield', 'Portland', 'Austin', 'Denver', 'Madison', 'Raleigh', 'Boise', 'Salem'],
+    emailDomains: EXAMPLE_EMAIL_DOMAINS,
+    postalCode: '#####',
+    address: '{number} {street}, {city} {postalCode}',
+    date: 'MM/DD/YYYY',
+    currency: { symbol: '$', prefix: true, decimal: '.', thousands: ',' }
+  },
+  'en-GB': {
+    firstNames: ['Oliver', 'Amelia', 'George', 'Isla', 'Harry', 'Ava', 'Jack', 'Emily', 'Charlie', 'Sophie', 'Thomas', 'Grace'],
+    lastNames: ['Smith', 'Jones', 'Taylor', 'Brown', 'Williams', 'Wilson', 'Evans', 'Thomas', 'Roberts', 'Walker', 'Wright', 'Hughes'],
+    streets: ['High Street', 'Station Road', 'Church Lane', 'Victoria Road', 'Green Lane', 'Manor Road', 'Park Road', 'Mill Lane'],
+    cities: ['London', 'Manchester', 'Bristol', 'Leeds', 'York', 'Oxford', 'Brighton', 'Norwich'],
+    emailDomains: EXAMPLE_EMAIL_DOMAINS,
+    postalCode: '??# #??',
+    address: '{number} {street}, {city} {postalCode}',
+    date: 'DD/MM/YYYY',
+    currency: { symbol: '£', prefix: true, decimal: '.', thousands: ',' }
+  },
+  'de-DE': {
+    firstNames: ['Lukas', 'Anna', 'Leon', 'Marie', 'Finn', 'Sophie', 'Jonas', 'Emma', 'Paul', 'Lena', 'Felix', 'Hannah'],
+    lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schulz', 'Hoffmann', 'Koch', 'Richter'],
+    streets: ['Hauptstraße', 'Schulstraße', 'Gartenweg', 'Bahnhofstraße', 'Lindenallee', 'Bergstraße', 'Kirchweg', 'Am Markt'],
+    cities: ['Berlin', 'Hamburg', 'München', 'Köln', 'Leipzig', 'Dresden', 'Bremen', 'Freiburg'],
+    emailDomains: EXAMPLE_EMAIL_DOMAINS,
+    postalCode: '#####',
+    address: '{street} {number}, {postalCode} {city}',
+    date: 'DD.MM.YYYY',
+    currency: { symbol: '€', prefix: false, decimal: ',', thousands: '.' }
+  },
+  'fr-FR': {
+    firstNames: ['Gabriel', 'Louise', 'Raphaël', 'Jade', 'Léo', 'Emma', 'Arthur', 'Chloé', 'Jules', 'Alice', 'Hugo', 'Léa'],
+    lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau', 'Simon', 'Laurent'],
+    streets: ['rue de la Paix', 'avenue Victor Hugo', 'rue du Moulin', 'boulevard Voltaire', 'rue des Lilas', 'place de la République', 'rue Pasteur', 'chemin des Vignes'],
+    cities: ['Paris', 'Lyon', 'Marseille', 'Toulouse', 'Nantes', 'Bordeaux', 'Lille', 'Strasbourg'],
+    emailDomains: EXAMPLE_EMAIL_DOMAINS,
+    postalCode: '#####',
+    address: '{number} {street}, {postalCode} {city}',
+    date: 'DD/MM/YYYY',
+    currency: { symbol: '€', prefix: false, decimal: ',', thousands: ' ' }
+  },
+  'es-ES': {
+    firstNames: ['Hugo', 'Lucía', 'Martín', 'Sofía', 'Pablo', 'María', 'Daniel', 'Paula', 'Alejandro', 'Valeria', 'Diego', 'Carmen'],
+    lastNames: ['García', 'Rodríguez', 'González', 'Fernández', 'López', 'Martínez', 'Sánchez', 'Pérez', 'Gómez', 'Martín', 'Jiménez', 'Ruiz'],
+    streets: ['Calle Mayor', 'Avenida de la Constitución', 'Calle del Sol', 'Paseo del Prado', 'Calle de Alcalá', 'Plaza de España', 'Calle Real', 'Camino Viejo'],
+    cities: ['Madrid', 'Barcelona', 'Valencia', 'Sevilla', 'Zaragoza', 'Málaga', 'Bilbao', 'Granada'],
+    emailDomains: EXAMPLE_EMAIL_DOMAINS,
+    postalCode: '#####',
+    address: '{street} {number}, {postalCode} {city}',
+    date: 'DD/MM/YYYY',
+    currency: { symbol: '€', prefix: false, decimal: ',', thousands: '.' }
+  }
+};
+
+const DEFAULT_DATA_LOCALE: DataLocaleId = 'en-US';
+
+// Generated dates fall between these days (UTC)
+const GENERATED_DATE_START = Date.UTC(2020, 0, 1);
+const GENERATED_DATE_DAYS = 7 * 365 + 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cents used for generated prices, weighted towards typical shop prices
+const GENERATED_PRICE_CENTS = [0, 0, 49, 50, 95, 99, 99];
+
+const LOREM_WORDS = [
+  'lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do', 'eiusmod', 'tempor',
+  'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua', 'enim', 'ad', 'minim', 'veniam', 'quis', 'nostrud',
+  'exercitation', 'ullamco', 'laboris', 'nisi', 'aliquip', 'ex', 'ea', 'commodo', 'consequat', 'duis', 'aute', 'irure',
+  'in', 'reprehenderit', 'voluptate', 'velit', 'esse', 'cillum', 'fugiat', 'nulla', 'pariatur'
+];
+
+/**
+ * Replaces each # in a pattern with a random digit and each ? with a random capital letter.
+ * @param pattern The pattern, e.g. '#####' or '??# #??'.
+ * @param random The seeded random source.
+ */
+function fillPattern(pattern: string, random: () => number): string {
+  return pattern.replace(/[#?]/g, char => char === '#'
+    ? String(Math.floor(random() * 10))
+    : String.fromCharCode(65 + Math.floor(random() * 26)));
+}
+
+/**
+ * Lowercases a name and strips accents and punctuation for use in an email address.
+ * @param name A first or last name.
+ */
+function toEmailPart(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Formats an amount in a locale's currency style, e.g. $1,249.99 or 1.249,99 €.
+ * @param amount The amount.
+ * @param currency The locale's currency format.
+ */
+function formatPrice(amount: number, currency: DataLocale['currency']): string {
+  const [whole, cents] = amount.toFixed(2).split('.');
+  const number = whole.replace(/\B(?=(\d{3})+(?!\d))/g, currency.thousands) + currency.decimal + cents;
+  return currency.prefix ? currency.symbol + number : `${number} ${currency.symbol}`;
+}
+
+// Placeholder generators, each producing one value from the seeded random source
+const DATA_GENERATORS: Record<DataGeneratorId, (random: () => number, locale: DataLocale) => string> = {
+  name: (random, locale) => `${pickRandom(random, locale.firstNames)} ${pickRandom(random, locale.lastNames)}`,
+  email: (random, locale) => {
+    const first = toEmailPart(pickRandom(random, locale.firstNames));
+    const last = toEmailPart(pickRandom(random, locale.lastNames));
+    return `${first}.${last}@${pickRandom(random, locale.emailDomains)}`;
+  },
+  date: (random, locale) => {
+    const date = new Date(GENERATED_DATE_START + Math.floor(random() * GENERATED_DATE_DAYS) * DAY_MS);
+    const pad = (value: number) => ('0' + value).slice(-2);
+    return locale.date
+      .replace('YYYY', String(date.getUTCFullYear()))
+      .replace('MM', pad(date.getUTCMonth() + 1))
+      .replace('DD', pad(date.getUTCDate()));
+  },
+  price: (random, locale) => {
+    // Mostly everyday prices, with the occasional four-figure one
+    const whole = random() < 0.9 ? 1 + Math.floor(random() * 199) : 200 + Math.floor(random() * 2800);
+    return formatPrice(whole + pickRandom(random, GENERATED_PRICE_CENTS) / 100, locale.currency);
+  },
+  address: (random, locale) => locale.address
+    .replace('{number}', String(1 + Math.floor(random() * 199)))
+    .replace('{street}', pickRandom(random, locale.streets))
+    .replace('{postalCode}', fillPattern(locale.postalCode, random))
+    .replace('{city}', pickRandom(random, locale.cities)),
+  lorem: random => {
+    const words = Array.from({ length: 6 + Math.floor(random() * 7) }, () => pickRandom(random, LOREM_WORDS));
+    const sentence = words.join(' ');
+    return sentence.charAt(0).toUpperCase() + sentence.slice(1) + '.';
+  }
+};
+
+// Layer names that pick a generator for their field in structured mode, checked in order
+const FIELD_GENERATOR_PATTERNS: [RegExp, DataGeneratorId][] = [
+  [/mail/i, 'email'],
+  [/price|cost|amount|total|fee/i, 'price'],
+  [/date|day|deadline|due|published/i, 'date'],
+  [/address|street|location|city/i, 'address'],
+  [/name|author|user|person|contact/i, 'name']
+];
+
+/**
+ * Tells whether a value is a known generator id.
+ * @param value The value to check.
+ */
+function isDataGeneratorId(value: any): value is DataGeneratorId {
+  return typeof value === 'string' && Object.keys(DATA_GENERATORS).indexOf(value) >= 0;
+}
+
+/**
+ * Resolves a locale id, falling back to the default for unknown ids.
+ * @param value The requested locale id.
+ */
+function getDataLocaleId(value: any): DataLocaleId {
+  return typeof value === 'string' && Object.keys(DATA_LOCALES).indexOf(value) >= 0 ? value as DataLocaleId : DEFAULT_DATA_LOCALE;
+}
+
+/**
+ * Generates placeholder values for flat mode.
+ * @param generator The generator to use.
+ * @param count Number of values.
+ * @param localeId The locale to generate for.
+ * @param seed Seed for the random source; the same seed gives the same values.
+ */
+function generateDataItems(generator: DataGeneratorId, count: number, localeId: DataLocaleId, seed: number): string[] {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => DATA_GENERATORS[generator](random, DATA_LOCALES[localeId]));
+}
+
+/**
+ * Generates placeholder card objects for structured mode. Each layer gets the generator its name
+ * suggests (e.g. "email", "price"), and the chosen generator otherwise.
+ * @param fieldNames The text layer names shared by the cards.
+ * @param count Number of cards.
+ * @param fallback Generator for layers whose names suggest none.
+ * @param localeId The locale to generate for.
+ * @param seed Seed for the random source.
+ */
+function generateDataCardItems(fieldNames: string[], count: number, fallback: DataGeneratorId, localeId: DataLocaleId, seed: number): Record<string, string>[] {
+  const random = createSeededRandom(seed);
+  const generators = fieldNames.map(fieldName => {
+    const match = FIELD_GENERATOR_PATTERNS.find(([pattern]) => pattern.test(fieldName));
+    return match ? match[1] : fallback;
+  });
+  return Array.from({ length: count }, () => {
+    const item: Record<string, string> = {};
+    fieldNames.forEach((fieldName, i) => {
+      item[fieldName] = DATA_GENERATORS[generators[i]](random, DATA_LOCALES[localeId]);
+    });
+    return item;
+  });
+}
+
+// ============================================================================
+// FIGMA OPERATIONS
+// ============================================================================
+
+/**
+ * Checks if the plugin has access to the current Figma page.
+ * Shows a toast and returns false if not accessible.
+ * @returns {Promise<boolean>} True if access is available, false otherwise.
+ */
+async function ensurePageAccess(): Promise<boolean> {
+  if (!figma.editorType) {
+    // We're not in an editor context
+    sendToastToUI('❌ This plugin requires an active Figma document', 'critical');
+    return false;
+  }
+
+  try {
+    // Check if we can access the current page
+    const currentPage = figma.currentPage;
+    if (!currentPage) {
+      sendToastToUI('Can\'t access current page', 'critical');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    sendToastToUI('Error accessing page', 'critical');
+    return false;
+  }
+}
+
+// Ordering strategies selectable in settings
+const ORDERING_STRATEGIES: OrderingStrategy[] = ['auto', 'layer', 'reading-ltr', 'reading-rtl', 'columns', 'grid-rows', 'grid-columns'];
+// Default pixels within which nodes count as the same row or column
+const DEFAULT_ORDERING_TOLERANCE = 10;
+
+/**
+ * Returns a node's bounds in page coordinates.
+ * @param node The node to measure.
+ */
+function getPageBounds(node: SceneNode): Rect {
+  return node.absoluteBoundingBox || {
+    x: node.absoluteTransform[0][2],
+    y: node.absoluteTransform[1][2],
+    width: node.width,
+    height: node.height
+  };
+}
+
+/**
+ * Groups items into bands (rows or columns): sorted by position, a new band starts when an
+ * item is more than `tolerance` pixels past the first item of the current band.
+ * @param items The items to group.
+ * @param position Returns the item's position along the banding axis.
+ * @param tolerance Maximum distance from the band's first item.
+ */
+function groupIntoBands<T>(items: T[], position: (item: T) => number, tolerance: number): T[][] {
+  const sorted = [...items].sort((a, b) => position(a) - position(b));
+  const bands: T[][] = [];
+  let bandStart = 0;
+  for (const item of sorted) {
+    if (bands.length === 0 || position(item) - bandStart > tolerance) {
+      bands.push([item]);
+      bandStart = position(item);
+    } else {
+      bands[bands.length - 1].push(item);
+    }
+  }
+  return bands;
+}
+
+/**
+ * Returns the node's index path from the document root, used to sort by layer order.
+ * @param node The node to locate.
+ */
+function getLayerPath(node: BaseNode): number[] {
+  const path: number[] = [];
+  let current = node;
+  while (current.parent) {
+    path.unshift(current.parent.children.indexOf(current as SceneNode));
+    current = current.parent;
+  }
+  return path;
+}
+
+/**
+ * Orders nodes with an explicit strategy:
+ * - layer: document tree order (auto layout flow order within a frame)
+ * - reading-ltr / reading-rtl: rows top to bottom, each row left to right or right to left
+ * - columns: columns left to right, each column top to bottom
+ * - grid-rows / grid-columns: rows and columns detected from node centers, row-major or column-major
+ * @param nodes The nodes to order.
+ * @param strategy Any strategy except 'auto'.
+ * @param tolerance Pixels within which nodes count as the same row or column.
+ */
+function orderNodesByStrategy<T extends SceneNode>(nodes: T[], strategy: OrderingStrategy, tolerance: number): T[] {
+  const bounds = new Map<T, Rect>(nodes.map(node => [node, getPageBounds(node)] as [T, Rect]));
+  const box = (node: T) => bounds.get(node) as Rect;
+  const flatten = (bands: T[][]) => bands.reduce((all: T[], band) => all.concat(band), []);
+
+  switch (strategy) {
+    case 'layer': {
+      const paths = new Map<T, number[]>(nodes.map(node => [node, getLayerPath(node)] as [T, number[]]));
+      return [...nodes].sort((a, b) => {
+        const pathA = paths.get(a) as number[];
+        const pathB = paths.get(b) as number[];
+        for (let i = 0; i < pathA.length && i < pathB.length; i++) {
+          if (pathA[i] !== pathB[i]) return pathA[i] - pathB[i];
+        }
+        return pathA.length - pathB.length;
+      });
+    }
+    case 'reading-ltr':
+      return flatten(groupIntoBands(nodes, node => box(node).y, tolerance)
+        .map(row => row.sort((a, b) => box(a).x - box(b).x)));
+    case 'reading-rtl':
+      return flatten(groupIntoBands(nodes, node => box(node).y, tolerance)
+        .map(row => row.sort((a, b) => (box(b).x + box(b).width) - (box(a).x + box(a).width))));
+    case 'columns':
+      return flatten(groupIntoBands(nodes, node => box(node).x, tolerance)
+        .map(column => column.sort((a, b) => box(a).y - box(b).y)));
+    case 'grid-rows':
+    case 'grid-columns': {
+      const cell = new Map<T, { row: number; column: number }>();
+      groupIntoBands(nodes, node => box(node).y + box(node).height / 2, tolerance).forEach((row, rowIndex) => {
+        row.forEach(node => cell.set(node, { row: rowIndex, column: 0 }));
+      });
+      groupIntoBands(nodes, node => box(node).x + box(node).width / 2, tolerance).forEach((column, columnIndex) => {
+        column.forEach(node => (cell.get(node) as { row: number; column: number }).column = columnIndex);
+      });
+      const rowMajor = strategy === 'grid-rows';
+      return [...nodes].sort((a, b) => {
+        const cellA = cell.get(a) as { row: number; column: number };
+        const cellB = cell.get(b) as { row: number; column: number };
+        const [primary, secondary] = rowMajor ? ['row', 'column'] as const : ['column', 'row'] as const;
+        return cellA[primary] - cellB[primary] || cellA[secondary] - cellB[secondary];
+      });
+    }
+    default:
+      return orderNodesForReplacement(nodes, 'auto', tolerance);
+  }
+}
+
+/**
+ * Orders nodes for replacement. With the 'auto' strategy: by auto layout order when they share
+ * an auto layout ancestor, else visually (top-to-bottom, left-to-right).
+ * Works for text nodes as well as containers such as cards.
+ * @param nodes The nodes to order.
+ * @param strategy The ordering strategy from the options.
+ * @param tolerance Pixels within which nodes count as the same row or column.
+ * @returns The same nodes in replacement order.
+ */
+function orderNodesForReplacement<T extends SceneNode>(
+  nodes: T[],
+  strategy: OrderingStrategy = 'auto',
+  tolerance: number = DEFAULT_ORDERING_TOLERANCE
+): T[] {
+  if (nodes.length === 0) {
+    return [];
+  }
+  if (strategy !== 'auto') {
+    return orderNodesByStrategy(nodes, strategy, tolerance);
+  }
+
+  // Helper: Get ancestor chain for a node (from node up to root)
+  function getAncestors(node: BaseNode): BaseNode[] {
+    const ancestors: BaseNode[] = [];
+    let current: BaseNode | null = node.parent;
+    while (current) {
+      ancestors.push(current);
+      // @ts-ignore: Figma types
+      current = current.parent || null;
+    }
+    return ancestors;
+  }
+
+  // Step 1: Build ancestor chains for all nodes
+  const ancestorChains = nodes.map(getAncestors);
+
+  // Step 2: Find the lowest common ancestor (LCA) that is an auto layout frame
+  function findLowestCommonAutoLayoutAncestor(chains: BaseNode[][]): FrameNode | null {
+    if (chains.length === 0) return null;
+    // Reverse chains so root is first
+    const reversed = chains.map(chain => [...chain].reverse());
+    let lca: BaseNode | null = null;
+    for (let i = 0; ; i++) {
+      const nodesAtLevel = reversed.map(chain => chain[i]);
+      if (nodesAtLevel.some(n => n === undefined)) break;
+      const first = nodesAtLevel[0];
+      if (nodesAtLevel.every(n => n === first)) {
+        lca = first;
+      } else {
+        break;
+      }
+    }
+    // Check if LCA is an auto layout frame
+    if (lca && lca.type === 'FRAME' && 'layoutMode' in lca && (lca as FrameNode).layoutMode !== 'NONE') {
+      return lca as FrameNode;
+    }
+    return null;
+  }
+
+  const lcaAutoLayout = findLowestCommonAutoLayoutAncestor(ancestorChains);
+  const selectedSet = new Set<BaseNode>(nodes);
+  let orderedNodes: T[] = [];
+
+  if (lcaAutoLayout) {
+    // Step 3: Recursively collect the nodes in visual order within the LCA
+    function collectNodesInOrder(node: BaseNode): T[] {
+      let result: T[] = [];
+      if (selectedSet.has(node)) {
+        result.push(node as T);
+      } else if ('children' in node && Array.isArray((node as any).children)) {
+        for (const child of (node as any).children) {
+          result = result.concat(collectNodesInOrder(child));
+        }
+      }
+      return result;
+    }
+    orderedNodes = collectNodesInOrder(lcaAutoLayout);
+  } else {
+    // Fallback: previous logic
+    const parents = nodes.map(t => t.parent).filter(Boolean);
+    const uniqueParents = Array.from(new Set(parents));
+    if (
+      uniqueParents.length === 1 &&
+      uniqueParents[0] !== null &&
+      'layoutMode' in uniqueParents[0] &&
+      (uniqueParents[0] as FrameNode).layoutMode !== 'NONE'
+    ) {
+      const parent = uniqueParents[0] as FrameNode;
+      orderedNodes = parent.children.filter(node => selectedSet.has(node)) as T[];
+    } else {
+      // Compare page positions, since nodes from deep selection may sit in different frames
+      orderedNodes = [...nodes].sort((a, b) => {
+        const ay = a.absoluteTransform[1][2];
+        const by = b.absoluteTransform[1][2];
+        if (Math.abs(ay - by) < tolerance) {
+          return a.absoluteTransform[0][2] - b.absoluteTransform[0][2];
+        }
+        return ay - by;
+      });
+    }
+  }
+
+  return orderedNodes;
+}
+
+// Container types walked by deep selection to find nested text layers
+const DEEP_SELECTION_CONTAINER_TYPES: NodeType[] = ['FRAME', 'GROUP', 'SECTION', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE'];
+
+/**
+ * Tests a layer name against the layer name filter: comma-separated, case-insensitive
+ * patterns where `*` matches any characters. An empty filter matches every name.
+ * @param name The layer name.
+ * @param filter The filter from the options.
+ */
+function matchesLayerNameFilter(name: string, filter: string): boolean {
+  const patterns = filter.split(',').map(pattern => pattern.trim()).filter(Boolean);
+  if (patterns.length === 0) {
+    return true;
+  }
+  return patterns.some(pattern => {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i').test(name.trim());
+  });
+}
+
+/**
+ * Collects the text layers to fill from a selected node, walking into containers when deep
+ * selection is on. Hidden or locked layers prune their whole subtree when skipped.
+ * @param node A selected node or one of its descendants.
+ * @param options The plugin options holding the selection filters.
+ * @param into Receives the matching text nodes, in layer order.
+ */
+function collectTextElements(node: SceneNode, options: PluginOptions, into: TextNode[]): void {
+  if (options.skipHiddenLayers && !node.visible) return;
+  if (options.skipLockedLayers && node.locked) return;
+  if (node.type === 'TEXT') {
+    if (matchesLayerNameFilter(node.name, options.layerNameFilter)) {
+      into.push(node);
+    }
+    return;
+  }
+  if (options.deepSelection && DEEP_SELECTION_CONTAINER_TYPES.indexOf(node.type) >= 0 && 'children' in node) {
+    for (const child of node.children) {
+      collectTextElements(child, options, into);
+    }
+  }
+}
+
+/**
+ * Returns the selected text elements (and, with deep selection, the text nested inside selected
+ * containers) that pass the layer filters, unordered.
+ * @param options The plugin options holding the selection filters.
+ */
+function getSelectedTextElements(options: PluginOptions): TextNode[] {
+  const textElements: TextNode[] = [];
+  for (const node of figma.currentPage.selection) {
+    collectTextElements(node, options, textElements);
+  }
+  // A text layer can be reached twice when a container and its descendant are both selected
+  return Array.from(new Set(textElements));
+}
+
+/**
+ * Returns the selected text elements in the order they will receive generated items.
+ * @returns {Promise<TextNode[]>} The ordered text nodes (empty if none selected).
+ */
+async function getOrderedSelectedTextElements(): Promise<TextNode[]> {
+  const hasAccess = await ensurePageAccess();
+  if (!hasAccess) {
+    throw new Error('No access to current page');
+  }
+
+  const options = await getOptions();
+  return orderNodesForReplacement(getSelectedTextElements(options), options.orderingStrategy, options.orderingTolerance);
+}
+
+/**
+ * Converts a generated array item to the text written into a node.
+ * @param item A string, or any other value, which is stringified.
+ */
+function itemToText(item: any): string {
+  return typeof item === 'string' ? item : JSON.stringify(item);
+}
+
+// Text properties captured per styled run and re-applied after the text is replaced
+const PRESERVED_TEXT_STYLE_FIELDS: (keyof Omit<StyledTextSegment, 'characters' | 'start' | 'end'>)[] = [
+  'fontName',
+  'fontSize',
+  'textDecoration',
+  'textCase',
+  'letterSpacing',
+  'lineHeight',
+  'fills',
+  'hyperlink',
+  'textStyleId',
+  'fillStyleId'
+];
+
+/**
+ * Loads every font used in a text node. Mixed-font nodes need each range's font loaded
+ * before their characters can change.
+ * @param textElement The text node whose fonts to load.
+ */
+async function loadTextElementFonts(textElement: TextNode): Promise<void> {
+  const fonts = textElement.characters.length > 0
+    ? textElement.getRangeAllFontNames(0, textElement.characters.length)
+    : [textElement.fontName as FontName];
+  await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+}
+
+/**
+ * Maps styled runs of the old text onto the new text. Each run keeps its relative position,
+ * with boundaries snapped to the nearest word break, so a bold lead-in stays on the leading
+ * words and a trailing link stays at the end.
+ * @param segments Styled runs of the old text.
+ * @param oldLength Length of the old text.
+ * @param newText The replacement text.
+ * @returns The new [start, end) range for each run, in order.
+ */
+function mapStyledRanges(segments: StyledTextSegment[], oldLength: number, newText: string): { start: number; end: number }[] {
+  const newLength = newText.length;
+  // Snap a proposed boundary to the nearest position following whitespace
+  function snapToWordBreak(position: number): number {
+    if (position <= 0 || position >= newLength) return Math.max(0, Math.min(position, newLength));
+    for (let offset = 0; offset < newLength; offset++) {
+      if (position - offset > 0 && /\s/.test(newText[position - offset - 1])) return position - offset;
+      if (position + offset < newLength && /\s/.test(newText[position + offset - 1])) return position + offset;
+    }
+    return position;
+  }
+  const boundaries = segments.map((segment, index) =>
+    index === 0 ? 0 : snapToWordBreak(Math.round((segment.start / oldLength) * newLength))
+  );
+  boundaries.push(newLength);
+  // Keep boundaries monotonic so snapped runs never overlap
+  for (let i = 1; i < boundaries.length; i++) {
+    boundaries[i] = Math.max(boundaries[i], boundaries[i - 1]);
+  }
+  return segments.map((_, index) => ({ start: boundaries[index], end: boundaries[index + 1] }));
+}
+
+/**
+ * Re-applies one captured run's style to a range of the new text.
+ * Shared text and fill styles are re-linked instead of copying their raw values.
+ */
+async function applyStyledRange(textElement: TextNode, segment: StyledTextSegment, start: number, end: number): Promise<void> {
+  if (segment.textStyleId) {
+    await textElement.setRangeTextStyleIdAsync(start, end, segment.textStyleId);
+  } else {
+    textElement.setRangeFontName(start, end, segment.fontName);
+    textElement.setRangeFontSize(start, end, segment.fontSize);
+    textElement.setRangeTextDecoration(start, end, segment.textDecoration);
+    textElement.setRangeTextCase(start, end, segment.textCase);
+    textElement.setRangeLetterSpacing(start, end, segment.letterSpacing);
+    textElement.setRangeLineHeight(start, end, segment.lineHeight);
+  }
+  if (segment.fillStyleId) {
+    await textElement.setRangeFillStyleIdAsync(start, end, segment.fillStyleId);
+  } else {
+    textElement.setRangeFills(start, end, segment.fills);
+  }
+  textElement.setRangeHyperlink(start, end, segment.hyperlink);
+}
+
+/**
+ * Finds the instance whose TEXT component property a text layer displays. Writing through the
+ * property keeps the instance in sync with its component, where setting the layer's characters
+ * would override the property.
+ * @param textElement The text layer.
+ * @returns The instance and the full property name, or null when the text is not bound to an instance property.
+ */
+function findTextPropertyBinding(textElement: TextNode): { instance: InstanceNode; propertyName: string } | null {
+  const propertyName = textElement.componentPropertyReferences && textElement.componentPropertyReferences.characters;
+  if (!propertyName) {
+    return null;
+  }
+  let parent = textElement.parent;
+  while (parent && parent.type !== 'PAGE' && parent.type !== 'DOCUMENT') {
+    if (parent.type === 'INSTANCE') {
+      const property = parent.componentProperties[propertyName];
+      if (property && property.type === 'TEXT') {
+        return { instance: parent, propertyName };
+      }
+    }
+    // Layers of a main component own their text; the property default follows it
+    if (parent.type === 'COMPONENT' || parent.type === 'COMPONENT_SET') {
+      return null;
+    }
+    parent = parent.parent;
+  }
+  return null;
+}
+
+/**
+ * Picks the mode a variable is written in: the mode named in the options, else the mode the
+ * layer displays, else the collection's default mode.
+ * @param collection The variable's collection.
+ * @param textElement The layer bound to the variable.
+ * @param modeName Mode name from the options ('' for none); matched ignoring case.
+ */
+function getVariableWriteMode(collection: VariableCollection, textElement: TextNode, modeName: string): string {
+  const named = modeName ? collection.modes.find(mode => mode.name.toLowerCase() === modeName.toLowerCase()) : undefined;
+  if (named) {
+    return named.modeId;
+  }
+  return textElement.resolvedVariableModes[collection.id] || collection.defaultModeId;
+}
+
+/**
+ * Writes text into the string variable a layer's text is bound to, so design tokens stay the
+ * source of truth. Every layer bound to the variable shows the new text in that mode.
+ * @param textElement The text layer.
+ * @param text The new text.
+ * @param result The result to report for the layer.
+ * @param variableMode Mode bound string variables are written in ('' for the mode each layer displays).
+ * @returns {Promise<TextWriteResult | null>} The result, or null when the layer is not bound to a string variable.
+ */
+async function writeBoundVariable(textElement: TextNode, text: string, result: TextWriteResult, variableMode: string): Promise<TextWriteResult | null> {
+  const alias = textElement.boundVariables && textElement.boundVariables.characters;
+  if (!alias) {
+    return null;
+  }
+  try {
+    const variable = await figma.variables.getVariableByIdAsync(alias.id);
+    if (!variable || variable.resolvedType !== 'STRING') {
+      return null;
+    }
+    if (variable.remote) {
+      return { ...result, status: 'error', message: `Bound to library variable "${variable.name}"` };
+    }
+    const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+    if (!collection) {
+      return null;
+    }
+    const modeId = getVariableWriteMode(collection, textElement, variableMode);
+    const current = variable.valuesByMode[modeId];
+    if (current && typeof current === 'object' && 'type' in current && current.type === 'VARIABLE_ALIAS') {
+      return { ...result, status: 'error', message: `Variable "${variable.name}" refers to another variable in this mode` };
+    }
+    variable.setValueForMode(modeId, text);
+    return result;
+  } catch (error) {
+    console.error('Error writing variable for', textElement.name, error);
+    return { ...result, status: 'error', message: error instanceof Error ? error.message : 'Could not update variable' };
+  }
+}
+
+/**
+ * Sets a text layer's text where it lives: in the string variable it is bound to, in the
+ * instance's TEXT component property it displays, or else in its characters, preserving mixed
+ * styling across the new text. Loads the node's fonts first, unless the text goes to a variable.
+ * Never throws: nodes with missing fonts or write failures are reported in the result instead,
+ * so one bad node does not abort the batch.
+ * @param textElement The text node to update.
+ * @param text The new text.
+ * @param variableMode Mode bound string variables are written in ('' for the mode each layer displays).
+ * @returns {Promise<TextWriteResult>} Whether the node was updated, and why not if skipped.
+ */
+async function setTextElementCharacters(textElement: TextNode, text: string, variableMode: string): Promise<TextWriteResult> {
+  const result: TextWriteResult = { nodeId: textElement.id, name: textElement.name, status: 'updated' };
+  // Writing a variable needs no fonts, so a missing font does not block it
+  const variableResult = await writeBoundVariable(textElement, text, result, variableMode);
+  if (variableResult) {
+    return variableResult;
+  }
+  if (textElement.hasMissingFont) {
+    return { ...result, status: 'missing-font', message: 'Missing font' };
+  }
+  try {
+    await loadTextElementFonts(textElement);
+  } catch (error) {
+    console.error('Error loading fonts for', textElement.name, error);
+    return { ...result, status: 'missing-font', message: error instanceof Error ? error.message : 'Font could not be loaded' };
+  }
+  try {
+    const propertyBinding = findTextPropertyBinding(textElement);
+    if (propertyBinding) {
+      propertyBinding.instance.setProperties({ [propertyBinding.propertyName]: text });
+      return result;
+    }
+    const oldLength = textElement.characters.length;
+    const segments = oldLength > 0 ? textElement.getStyledTextSegments(PRESERVED_TEXT_STYLE_FIELDS) : [];
+    // Replacing characters gives the whole text the style of the first character
+    textElement.characters = text;
+    if (segments.length > 1 && text.length > 0) {
+      const ranges = mapStyledRanges(segments, oldLength, text);
+      for (let i = 0; i < segments.length; i++) {
+        if (ranges[i].end > ranges[i].start) {
+          await applyStyledRange(textElement, segments[i], ranges[i].start, ranges[i].end);
         }
-      } catch (e) {
-        errorMessage = response.statusText;
       }
-      throw new Error(`API Error: ${errorMessage}`);
     }
+  } catch (error) {
+    console.error('Error writing text to', textElement.name, error);
+    return { ...result, status: 'error', message: error instanceof Error ? error.message : 'Could not update text' };
+  }
+  return result;
+}
+
+/**
+ * Pairs each ordered text element with its proposed item for the review panel.
+ * Uses the same ordering as replaceSelectedTextElements so the numbering matches what is written.
+ * @param items Array of strings (or objects, which are stringified) proposed for the selection;
+ * null items are left out.
+ * @param textElements The text elements the items were generated for, if not the whole selection.
+ * @returns {Promise<ReviewEntry[]>} One entry per text element that has a matching item.
+ */
+async function buildReviewEntries(items: any[], textElements?: TextNode[]): Promise<ReviewEntry[]> {
+  const orderedTextElements = textElements || await getOrderedSelectedTextElements();
+  const entries: ReviewEntry[] = [];
+  for (let i = 0; i < orderedTextElements.length && i < items.length; i++) {
+    if (items[i] === null || items[i] === undefined) continue;
+    const textElement = orderedTextElements[i];
+    entries.push({
+      index: i + 1,
+      nodeId: textElement.id,
+      name: textElement.name,
+      currentText: textElement.characters,
+      proposedText: itemToText(items[i])
+    });
+  }
+  return entries;
+}
+
+/**
+ * Writes reviewed text into nodes by id. Nodes that were deleted or are no longer text are skipped.
+ * @param entries The accepted node ids with their (possibly edited) text.
+ * @param variableMode Mode bound string variables are written in ('' for the mode each layer displays).
+ * @param onWritten Called for every node that was updated.
+ * @returns {Promise<TextWriteResult[]>} One result per entry.
+ */
+async function applyReviewedText(entries: { nodeId: string; text: string }[], variableMode: string, onWritten?: TextWrittenCallback): Promise<TextWriteResult[]> {
+  const results: TextWriteResult[] = [];
+  for (const entry of entries) {
+    const node = await figma.getNodeByIdAsync(entry.nodeId);
+    if (!node || node.type !== 'TEXT') {
+      console.warn('Skipping missing text node:', entry.nodeId);
+      results.push({ nodeId: entry.nodeId, name: entry.nodeId, status: 'error', message: 'Layer no longer exists' });
+      continue;
+    }
+    const before = captureTextBox(node);
+    const previousText = node.characters;
+    const result = await setTextElementCharacters(node, entry.text, variableMode);
+    if (result.status === 'updated' && onWritten) {
+      onWritten(node, previousText);
+    }
+    const issue = result.status === 'updated' ? checkTextFit(node, before) : null;
+    results.push(issue ? { ...result, status: 'overflow', message: issue.reason } : result);
+  }
+  return results;
+}
+
+/**
+ * Replaces the text content of selected text elements with items from the provided array.
+ * Uses the order from getOrderedSelectedTextElements for consistent replacement.
+ * Loads the required font for each text node before replacement.
+ * @param items Array of strings (or objects, which are stringified) to insert into text elements.
+ * @param variableMode Mode bound string variables are written in ('' for the mode each layer displays).
+ * @param onWritten Called for every node that was updated.
+ * @returns {Promise<TextWriteResult[] | null>} One result per written node, or null if none selected.
+ */
+async function replaceSelectedTextElements(items: any[], variableMode: string, onWritten?: TextWrittenCallback): Promise<TextWriteResult[] | null> {
+  const orderedTextElements = await getOrderedSelectedTextElements();
+  if (orderedTextElements.length === 0) {
+    return null;
+  }
+
+  // Replace each text element with corresponding array item
+  const results: TextWriteResult[] = [];
+  for (let i = 0; i < orderedTextElements.length && i < items.length; i++) {
+    const previousText = orderedTextElements[i].characters;
+    const result = await setTextElementCharacters(orderedTextElements[i], itemToText(items[i]), variableMode);
+    if (result.status === 'updated' && onWritten) {
+      onWritten(orderedTextElements[i], previousText);
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
+// Node types treated as repeated cards in structured mode
+const STRUCTURED_CONTAINER_TYPES: NodeType[] = ['FRAME', 'COMPONENT', 'INSTANCE', 'GROUP'];
+
+/**
+ * Detects a structured selection: every selected node is a frame, component, instance or group
+ * containing text layers. Plain text selections (or mixed ones) return null and use flat mode,
+ * as does any selection while deep selection is on.
+ * @returns {Promise<StructuredSelection | null>} The ordered cards and their field names, or null.
+ */
+async function getStructuredSelection(): Promise<StructuredSelection | null> {
+  const hasAccess = await ensurePageAccess();
+  if (!hasAccess) {
+    return null;
+  }
+
+  const selection = figma.currentPage.selection;
+  if (selection.length === 0 || !selection.every(node => STRUCTURED_CONTAINER_TYPES.indexOf(node.type) >= 0)) {
+    return null;
+  }
+  const options = await getOptions();
+  if (options.deepSelection) {
+    return null;
+  }
+
+  const cards: StructuredCard[] = [];
+  const fieldNames: string[] = [];
+  for (const node of orderNodesForReplacement([...selection], options.orderingStrategy, options.orderingTolerance)) {
+    const textNodes = (node as ChildrenMixin).findAllWithCriteria({ types: ['TEXT'] });
+    if (textNodes.length === 0) {
+      return null;
+    }
+    const fields: { [fieldName: string]: TextNode[] } = {};
+    for (const textNode of textNodes) {
+      const name = textNode.name.trim();
+      if (!fields[name]) {
+        fields[name] = [];
+      }
+      // Layers sharing a name within one card receive the same value
+      fields[name].push(textNode);
+      if (fieldNames.indexOf(name) < 0) {
+        fieldNames.push(name);
+      }
+    }
+    cards.push({ node, fields });
+  }
+  return { cards, fieldNames };
+}
+
+/**
+ * Writes one generated object into a card, matching object keys to text layer names.
+ * Keys missing from the object leave their layers unchanged.
+ * @param card The card to fill.
+ * @param item The generated object for this card.
+ * @param variableMode Mode bound string variables are written in ('' for the mode each layer displays).
+ * @param onWritten Called for every layer that was updated.
+ * @returns {Promise<TextWriteResult[]>} One result per written layer.
+ */
+async function writeStructuredCard(card: StructuredCard, item: any, variableMode: string, onWritten?: TextWrittenCallback): Promise<TextWriteResult[]> {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    console.warn('Skipping non-object item for card:', card.node.name, item);
+    return [];
+  }
+  const results: TextWriteResult[] = [];
+  for (const fieldName of Object.keys(card.fields)) {
+    if (item[fieldName] === undefined || item[fieldName] === null) continue;
+    for (const textNode of card.fields[fieldName]) {
+      const previousText = textNode.characters;
+      const result = await setTextElementCharacters(textNode, itemToText(item[fieldName]), variableMode);
+      if (result.status === 'updated' && onWritten) {
+        onWritten(textNode, previousText);
+      }
+      results.push(result);
+    }
+  }
+  return results;
+}
+
+/**
+ * Builds review entries for structured mode: one entry per text layer, numbered by card.
+ * @param cards The ordered cards.
+ * @param items The generated objects, one per card.
+ */
+function buildStructuredReviewEntries(cards: StructuredCard[], items: any[]): ReviewEntry[] {
+  const entries: ReviewEntry[] = [];
+  for (let i = 0; i < cards.length && i < items.length; i++) {
+    const item = items[i];
+    if (!item || typeof item !== 'object') continue;
+    for (const fieldName of Object.keys(cards[i].fields)) {
+      if (item[fieldName] === undefined || item[fieldName] === null) continue;
+      for (const textNode of cards[i].fields[fieldName]) {
+        entries.push({
+          index: i + 1,
+          nodeId: textNode.id,
+          name: fieldName,
+          currentText: textNode.characters,
+          proposedText: itemToText(item[fieldName])
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+// Average glyph width as a fraction of the font size, used to estimate characters per line
+const AVERAGE_CHAR_WIDTH_EM = 0.5;
+// Node types reported as a text slot's parent frame
+const SLOT_PARENT_TYPES: NodeType[] = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION'];
+
+/**
+ * Returns the name of the nearest frame, component, instance or section around a text layer.
+ * @param textElement The text layer.
+ */
+function getSlotParentName(textElement: TextNode): string | null {
+  let parent = textElement.parent;
+  while (parent && parent.type !== 'PAGE' && parent.type !== 'DOCUMENT') {
+    if (SLOT_PARENT_TYPES.indexOf(parent.type) >= 0) {
+      return parent.name;
+    }
+    parent = parent.parent;
+  }
+  return null;
+}
+
+/**
+ * Describes a text node for the model: its role (layer and parent names), current text and an
+ * approximate character budget derived from its size, font size and auto-resize mode.
+ * @param textElement The text node to describe.
+ * @returns {TextSlotContext} The slot context (without an index).
+ */
+function getTextSlotContext(textElement: TextNode): TextSlotContext {
+  const hasText = textElement.characters.length > 0;
+  const fontSize = textElement.fontSize === figma.mixed
+    ? (hasText ? textElement.getRangeFontSize(0, 1) as number : 12)
+    : textElement.fontSize;
+  const lineHeight = textElement.lineHeight === figma.mixed
+    ? (hasText ? textElement.getRangeLineHeight(0, 1) as LineHeight : { unit: 'AUTO' } as LineHeight)
+    : textElement.lineHeight;
+  const lineHeightPx = lineHeight.unit === 'PIXELS'
+    ? lineHeight.value
+    : lineHeight.unit === 'PERCENT' ? fontSize * lineHeight.value / 100 : fontSize * 1.2;
+
+  const autoResize = textElement.textAutoResize;
+  // Auto-width boxes grow horizontally, so there is no per-line limit
+  const charsPerLine = autoResize === 'WIDTH_AND_HEIGHT'
+    ? null
+    : Math.max(1, Math.floor(textElement.width / (fontSize * AVERAGE_CHAR_WIDTH_EM)));
+  let maxLines: number | null = null;
+  if (autoResize === 'WIDTH_AND_HEIGHT') {
+    maxLines = 1;
+  } else if (autoResize === 'NONE' || autoResize === 'TRUNCATE') {
+    maxLines = textElement.maxLines || Math.max(1, Math.floor(textElement.height / lineHeightPx));
+  } else if (textElement.maxLines) {
+    maxLines = textElement.maxLines;
+  }
+
+  return {
+    layerName: textElement.name,
+    parentName: getSlotParentName(textElement),
+    currentText: textElement.characters,
+    fontSize,
+    autoResize,
+    charsPerLine,
+    maxLines,
+    maxChars: charsPerLine !== null && maxLines !== null ? charsPerLine * maxLines : null
+  };
+}
+
+/**
+ * Describes a card for the model in structured mode, using the first layer of each field.
+ * @param card The card to describe.
+ * @param index The card's 1-based position.
+ */
+function getCardSlotContext(card: StructuredCard, index: number): CardSlotContext {
+  const fields: { [fieldName: string]: TextSlotContext } = {};
+  for (const fieldName of Object.keys(card.fields)) {
+    fields[fieldName] = getTextSlotContext(card.fields[fieldName][0]);
+  }
+  return { index, cardName: card.node.name, fields };
+}
+
+// Name of the temporary layer holding the index badges
+const INDEX_PREVIEW_NAME = 'Mentarii index preview';
+// Font used for the index badges
+const INDEX_PREVIEW_FONT: FontName = { family: 'Inter', style: 'Bold' };
+
+/**
+ * Draws a numbered badge at the top-left corner of each node, showing the index it will receive.
+ * The badges are grouped into one locked layer on the current page.
+ * @param nodes The nodes in replacement order.
+ * @returns {Promise<GroupNode | null>} The badge group, or null when there is nothing to show.
+ */
+async function createIndexPreview(nodes: SceneNode[]): Promise<GroupNode | null> {
+  if (nodes.length === 0) {
+    return null;
+  }
+  await figma.loadFontAsync(INDEX_PREVIEW_FONT);
+  const badges = nodes.map((node, i) => {
+    const bounds = getPageBounds(node);
+    const badge = figma.createFrame();
+    badge.name = String(i + 1);
+    badge.layoutMode = 'HORIZONTAL';
+    badge.primaryAxisSizingMode = 'AUTO';
+    badge.counterAxisSizingMode = 'AUTO';
+    badge.paddingLeft = badge.paddingRight = 4;
+    badge.paddingTop = badge.paddingBottom = 1;
+    badge.cornerRadius = 4;
+    badge.fills = [{ type: 'SOLID', color: { r: 0.05, g: 0.6, b: 1 } }];
+    const label = figma.createText();
+    label.fontName = INDEX_PREVIEW_FONT;
+    label.fontSize = 10;
+    label.characters = String(i + 1);
+    label.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+    badge.appendChild(label);
+    figma.currentPage.appendChild(badge);
+    badge.x = bounds.x;
+    badge.y = bounds.y - badge.height;
+    return badge;
+  });
+  const group = figma.group(badges, figma.currentPage);
+  group.name = INDEX_PREVIEW_NAME;
+  group.locked = true;
+  return group;
+}
+
+// Slack in pixels before a size difference counts as overflow (absorbs rounding)
+const FIT_TOLERANCE = 0.5;
+
+/**
+ * Records a text box's size before it is written.
+ * @param textElement The text node about to be written.
+ */
+function captureTextBox(textElement: TextNode): TextBoxSnapshot {
+  return { width: textElement.width, height: textElement.height };
+}
+
+/**
+ * Checks whether an auto layout parent with a fixed size is pushed out of its bounds by the node.
+ * @param textElement The written text node.
+ * @returns {TextFitIssue | null} The overflow, or null if the parent still contains the node.
+ */
+function checkAutoLayoutParentFit(textElement: TextNode): TextFitIssue | null {
+  const parent = textElement.parent;
+  if (!parent || parent.type !== 'FRAME' && parent.type !== 'COMPONENT' && parent.type !== 'INSTANCE') {
+    return null;
+  }
+  if (parent.layoutMode === 'NONE') {
+    return null;
+  }
+  if (parent.layoutSizingHorizontal === 'FIXED') {
+    const available = parent.width - parent.paddingLeft - parent.paddingRight;
+    if (textElement.width > available + FIT_TOLERANCE) {
+      return { reason: `Wider than its auto layout parent "${parent.name}"`, ratio: available / textElement.width };
+    }
+  }
+  if (parent.layoutSizingVertical === 'FIXED') {
+    const available = parent.height - parent.paddingTop - parent.paddingBottom;
+    const used = parent.layoutMode === 'VERTICAL'
+      ? parent.children.reduce((sum, child) => sum + ('height' in child ? child.height : 0), 0) + parent.itemSpacing * Math.max(0, parent.children.length - 1)
+      : textElement.height;
+    if (used > available + FIT_TOLERANCE) {
+      return { reason: `Pushes its auto layout parent "${parent.name}" past its height`, ratio: Math.max(0.1, 1 - (used - available) / textElement.height) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Measures the height a text node's text needs at its current width, on a copy so the node itself
+ * (which may sit in an instance, fill its auto layout parent or be bound to a variable) stays as it is.
+ * The copy is measured on the current page with its text unbound, so no auto layout or variable mode reflows it.
+ * @param textElement The text node (fonts already loaded).
+ */
+function measureNaturalHeight(textElement: TextNode): number {
+  const copy = textElement.clone();
+  try {
+    figma.currentPage.appendChild(copy);
+    if (copy.boundVariables && copy.boundVariables.characters) {
+      copy.setBoundVariable('characters', null);
+    }
+    copy.characters = textElement.characters;
+    copy.textAutoResize = 'HEIGHT';
+    return copy.height;
+  } finally {
+    copy.remove();
+  }
+}
+
+/**
+ * Checks a written text node against its size before the write.
+ * - Fixed-size boxes: the text's natural height must fit the box.
+ * - Auto-height and auto-width boxes: the text must not wrap onto more lines than before.
+ * - Any box inside a fixed-size auto layout parent must not overflow that parent.
+ * @param textElement The written text node (fonts already loaded).
+ * @param before The box size captured before the write.
+ * @returns {TextFitIssue | null} The problem found, or null if the text fits.
+ */
+function checkTextFit(textElement: TextNode, before: TextBoxSnapshot): TextFitIssue | null {
+  const autoResize = textElement.textAutoResize;
+  if (autoResize === 'NONE' || autoResize === 'TRUNCATE') {
+    const naturalHeight = measureNaturalHeight(textElement);
+    const height = textElement.height;
+    if (naturalHeight > height + FIT_TOLERANCE) {
+      return { reason: 'Overflows its fixed-size text box', ratio: height / naturalHeight };
+    }
+  } else if (textElement.height > before.height + FIT_TOLERANCE) {
+    return { reason: 'Wraps onto more lines than the original', ratio: before.height / textElement.height };
+  }
+  return checkAutoLayoutParentFit(textElement);
+}
+
+/**
+ * Records the size of every node about to be written, keyed by node id.
+ * @param textElements The nodes that may be written.
+ */
+function captureFitTargets(textElements: TextNode[]): Map<string, TextFitTarget> {
+  const targets = new Map<string, TextFitTarget>();
+  for (const textElement of textElements) {
+    targets.set(textElement.id, { node: textElement, before: captureTextBox(textElement) });
+  }
+  return targets;
+}
+
+/**
+ * Finds the local variable collection with the given name, or creates it, and lists the names
+ * of the variables already in it.
+ * @param collectionName The collection name from the options.
+ */
+async function getVariableTarget(collectionName: string): Promise<VariableTarget> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const collection = collections.find(candidate => candidate.name === collectionName)
+    || figma.variables.createVariableCollection(collectionName);
+  const variables = await figma.variables.getLocalVariablesAsync('STRING');
+  return {
+    collection,
+    names: new Set(variables.filter(variable => variable.variableCollectionId === collection.id).map(variable => variable.name))
+  };
+}
+
+/**
+ * Turns a layer into a variable name grouped by its parent frame ("Card/Title"), without the
+ * characters variable names cannot contain.
+ * @param textElement The text layer.
+ */
+function getTextVariableName(textElement: TextNode): string {
+  const clean = (name: string) => name.replace(/[.{}$]/g, '-').trim();
+  const layerName = clean(textElement.name) || 'Text';
+  const parentName = getSlotParentName(textElement);
+  return parentName && clean(parentName) ? `${clean(parentName)}/${layerName}` : layerName;
+}
+
+/**
+ * Binds text layers to string variables in the target collection, one new variable per layer,
+ * holding the layer's current text in every mode. Layers already bound to a string variable keep it.
+ * Layers that cannot be bound (e.g. inside library components) are left as they are and get
+ * their characters written instead.
+ * @param textElements The layers about to be filled.
+ * @param target The collection to create variables in.
+ */
+async function bindTextVariables(textElements: TextNode[], target: VariableTarget): Promise<void> {
+  for (const textElement of textElements) {
+    const alias = textElement.boundVariables && textElement.boundVariables.characters;
+    if (alias) {
+      const bound = await figma.variables.getVariableByIdAsync(alias.id);
+      if (bound && bound.resolvedType === 'STRING') continue;
+    }
+    const baseName = getTextVariableName(textElement);
+    let name = baseName;
+    for (let n = 2; target.names.has(name); n++) {
+      name = `${baseName} ${n}`;
+    }
+    try {
+      const variable = figma.variables.createVariable(name, target.collection, 'STRING');
+      target.names.add(name);
+      for (const mode of target.collection.modes) {
+        variable.setValueForMode(mode.modeId, textElement.characters);
+      }
+      textElement.setBoundVariable('characters', variable);
+    } catch (error) {
+      console.warn('Could not bind a variable to', textElement.name, error);
+    }
+  }
+}
+
+// Node types that translation mode duplicates per locale
+const TRANSLATABLE_CONTAINER_TYPES: NodeType[] = ['FRAME', 'SECTION', 'COMPONENT', 'INSTANCE', 'GROUP'];
+// Horizontal space between a frame and its translated copies
+const TRANSLATION_COPY_GAP = 80;
+
+type TranslatableNode = FrameNode | SectionNode | ComponentNode | InstanceNode | GroupNode;
+
+/**
+ * Returns the selected frames (and sections, components, instances and groups) to translate.
+ */
+function getTranslatableSelection(): TranslatableNode[] {
+  return figma.currentPage.selection.filter(
+    (node): node is TranslatableNode => TRANSLATABLE_CONTAINER_TYPES.indexOf(node.type) >= 0
+  );
+}
+
+/**
+ * Returns the text layers inside a node, depth-first in layer order. A copy made with clone()
+ * lists its text layers in the same order, so the lists of a frame and its copies line up by index.
+ * @param node The frame to search.
+ */
+function getTranslatableTextNodes(node: TranslatableNode): TextNode[] {
+  return node.findAllWithCriteria({ types: ['TEXT'] });
+}
+
+/**
+ * Duplicates a frame for a locale, names the copy after the locale and places it to the right
+ * of the original and earlier copies (auto layout parents place it themselves). Version history
+ * copied from the original's text layers is dropped, so the copy's history starts with its
+ * translation, and the copy's text is unbound from string variables.
+ * @param node The frame to duplicate.
+ * @param locale The locale the copy is for.
+ * @param copyIndex 0 for the first locale, 1 for the second, and so on.
+ */
+function duplicateForLocale(node: TranslatableNode, locale: string, copyIndex: number): TranslatableNode {
+  const copy = node.clone();
+  copy.name = `${node.name} (${locale})`;
+  const parent = node.parent;
+  const inAutoLayout = !!parent && 'layoutMode' in parent && parent.layoutMode !== 'NONE';
+  if (!inAutoLayout) {
+    copy.x = node.x + (node.width + TRANSLATION_COPY_GAP) * (copyIndex + 1);
+    copy.y = node.y;
+  }
+  for (const textNode of getTranslatableTextNodes(copy)) {
+    if (textNode.getPluginData(NODE_VERSIONS_KEY)) {
+      textNode.setPluginData(NODE_VERSIONS_KEY, '');
+    }
+    // Writing a translation into a shared variable would change the original frame too
+    if (textNode.boundVariables && textNode.boundVariables.characters) {
+      textNode.setBoundVariable('characters', null);
+    }
+  }
+  // Stored variants are in the source language, so cycling them would undo the translation
+  for (const slotNode of [copy, ...copy.findAllWithCriteria({ pluginData: { keys: [SLOT_VARIANTS_KEY] } })]) {
+    setSlotVariants(slotNode, null);
+  }
+  return copy;
+}
+
+/**
+ * Returns the text elements that would be filled on the current page, including nested text
+ * when deep selection is on, without ordering them (cheaper for counts and lookups).
+ * @returns {Promise<TextNode[]>} The selected text nodes, unordered.
+ */
+async function getUnorderedSelectedTextElements(): Promise<TextNode[]> {
+  const hasAccess = await ensurePageAccess();
+  if (!hasAccess) {
+    return [];
+  }
+
+  return getSelectedTextElements(await getOptions());
+}
+
+/**
+ * Returns the fill slots of the current selection, in replacement order: cards in structured
+ * mode, else text layers.
+ */
+async function getSelectionSlots(): Promise<SelectionSlot[]> {
+  const structured = await getStructuredSelection();
+  return structured
+    ? structured.cards.map(card => ({ node: card.node, card }))
+    : (await getOrderedSelectedTextElements()).map(textElement => ({ node: textElement, card: null }));
+}
+
+/**
+ * Writes an item into a slot: a card's fields in structured mode, else the text layer.
+ * @param slot The slot to fill.
+ * @param item A text, or an object of field texts for a card.
+ * @param variableMode Mode bound string variables are written in ('' for the mode each layer displays).
+ * @param onWritten Called for every layer that was updated.
+ * @returns {Promise<TextWriteResult[]>} One result per written layer.
+ */
+async function writeSlotItem(slot: SelectionSlot, item: any, variableMode: string, onWritten?: TextWrittenCallback): Promise<TextWriteResult[]> {
+  if (slot.card) {
+    return await writeStructuredCard(slot.card, item, variableMode, onWritten);
+  }
+  const textElement = slot.node as TextNode;
+  const previousText = textElement.characters;
+  const result = await setTextElementCharacters(textElement, itemToText(item), variableMode);
+  if (result.status === 'updated' && onWritten) {
+    onWritten(textElement, previousText);
+  }
+  return [result];
+}
+
+/**
+ * Returns the item a slot shows once overflow shortening rewrote some of its layers: the
+ * shortened text replaces the written text (the field's text in structured mode).
+ * @param slot The written slot.
+ * @param item The item written to it.
+ * @param shortened The final text of each shortened layer, by node id.
+ */
+function applyShortenedText(slot: SelectionSlot, item: any, shortened: Map<string, string>): any {
+  if (!slot.card) {
+    const text = shortened.get(slot.node.id);
+    return text === undefined ? item : text;
+  }
+  const fields = slot.card.fields;
+  const applied = { ...item };
+  for (const fieldName of Object.keys(fields)) {
+    const textNode = fields[fieldName].find(node => shortened.has(node.id));
+    if (textNode && applied[fieldName] !== undefined && applied[fieldName] !== null) {
+      applied[fieldName] = shortened.get(textNode.id);
+    }
+  }
+  return applied;
+}
+
+/**
+ * Returns every text layer of a card, field by field.
+ * @param card The card.
+ */
+function getCardTextElements(card: StructuredCard): TextNode[] {
+  return Object.keys(card.fields).reduce((nodes: TextNode[], name) => nodes.concat(card.fields[name]), []);
+}
+
+/**
+ * Returns every text layer of the cards in a structured selection, card by card.
+ * @param structured The structured selection.
+ */
+function getStructuredTextElements(structured: StructuredSelection): TextNode[] {
+  return structured.cards.reduce((nodes: TextNode[], card) => nodes.concat(getCardTextElements(card)), []);
+}
+
+/**
+ * Groups the versions stored on nodes into generations for the history panel, newest first.
+ * @param textElements The nodes to list.
+ * @returns {GenerationHistoryEntry[]} One entry per generation that wrote any of the nodes.
+ */
+function buildGenerationHistory(textElements: TextNode[]): GenerationHistoryEntry[] {
+  const generations = new Map<string, GenerationHistoryEntry>();
+  for (const textElement of textElements) {
+    const versions = getNodeVersions(textElement);
+    versions.forEach((version, i) => {
+      let generation = generations.get(version.generationId);
+      if (!generation) {
+        generation = {
+          id: version.generationId,
+          prompt: version.prompt,
+          model: version.model,
+          provider: version.provider,
+          timestamp: version.timestamp,
+          nodes: []
+        };
+        generations.set(version.generationId, generation);
+      }
+      generation.nodes.push({
+        nodeId: textElement.id,
+        name: textElement.name,
+        previousText: version.previousText,
+        text: version.text,
+        isCurrent: i === versions.length - 1 && textElement.characters === version.text
+      });
+    });
+  }
+  return Array.from(generations.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Tells whether a text node still shows the text its latest generation wrote.
+ * @param textElement The node to check.
+ */
+function isShowingGeneratedText(textElement: TextNode): boolean {
+  const versions = getNodeVersions(textElement);
+  return versions.length > 0 && versions[versions.length - 1].text === textElement.characters;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+// Storage key for the OpenAI API key in Figma client storage
+const API_KEY_STORAGE_KEY = 'openai-api-key';
+// Storage key for the active provider settings in Figma client storage
+const PROVIDER_SETTINGS_STORAGE_KEY = 'provider-settings';
+// Storage key for the user's default generation config in Figma client storage
+const GENERATION_CONFIG_STORAGE_KEY = 'generation-config';
+// Storage key for the user's named presets in Figma client storage
+const PRESETS_STORAGE_KEY = 'generation-presets';
+// Plugin data key on the document root holding the team-wide preset
+const DOCUMENT_PRESET_KEY = 'document-preset';
+// Shared plugin data namespace and key on the document root holding the brand voice
+const SHARED_PLUGIN_DATA_NAMESPACE = 'mentarii';
+const STYLE_GUIDE_KEY = 'style-guide';
+// Storage key for plugin behaviour options in Figma client storage
+const OPTIONS_STORAGE_KEY = 'plugin-options';
+// Storage key for the translation mode's locales and glossary in Figma client storage
+const TRANSLATION_SETTINGS_STORAGE_KEY = 'translation-settings';
+// Client storage key for the prompts suggested by the Fill quick action
+const RECENT_PROMPTS_STORAGE_KEY = 'recent-prompts';
+// Most recent prompts kept
+const MAX_RECENT_PROMPTS = 20;
+// Client storage key for the token usage of the current day and month
+const USAGE_STORAGE_KEY = 'token-usage';
+// Accepted spending limit periods
+const BUDGET_PERIODS: BudgetPeriod[] = ['off', 'day', 'month'];
+// Prefix of the plugin data keys on the document root holding each selection's conversation
+const CONVERSATION_KEY_PREFIX = 'conversation:';
+// Most turns stored per selection; older ones are dropped
+const MAX_CONVERSATION_TURNS = 10;
+// Plugin data key on the document root listing the conversation keys, least recently used first
+const CONVERSATION_INDEX_KEY = 'conversation-index';
+// Most conversations kept per document; the least recently used ones are deleted
+const MAX_CONVERSATIONS = 50;
+
+// Default plugin options
+const defaultOptions: PluginOptions = {
+  reviewBeforeApply: false,
+  streamResponses: true,
+  includeSlotContext: false,
+  overflowRetries: 2,
+  deepSelection: false,
+  skipHiddenLayers: true,
+  skipLockedLayers: true,
+  layerNameFilter: '',
+  orderingStrategy: 'auto',
+  orderingTolerance: DEFAULT_ORDERING_TOLERANCE,
+  nativeJsonMode: true,
+  keepConversation: true,
+  writeToVariables: false,
+  variableCollection: 'Copy',
+  variableMode: '',
+  variantCount: 1,
+  budgetPeriod: 'off',
+  budgetLimit: 10
+};
+
+/**
+ * Returns the client storage key holding the API key for a provider.
+ * OpenAI keeps the original key name so keys saved by earlier versions still load.
+ * @param provider The provider id.
+ */
+function getApiKeyStorageKey(provider: ProviderId): string {
+  return provider === 'openai' ? API_KEY_STORAGE_KEY : `${provider}-api-key`;
+}
+
+/**
+ * Saves an API key for a provider to Figma's client storage.
+ * @param apiKey The API key to store.
+ * @param provider The provider the key belongs to.
+ */
+async function saveApiKey(apiKey: string, provider: ProviderId): Promise<void> {
+  await figma.clientStorage.setAsync(getApiKeyStorageKey(provider), apiKey);
+  console.log('API key saved');
+}
+
+/**
+ * Retrieves a provider's API key from Figma's client storage.
+ * @param provider The provider whose key to load.
+ * @returns {Promise<string | null>} The stored API key, or null if not set.
+ */
+async function getApiKey(provider: ProviderId): Promise<string | null> {
+  return await figma.clientStorage.getAsync(getApiKeyStorageKey(provider));
+}
+
+/**
+ * Deletes a provider's API key from Figma's client storage.
+ * @param provider The provider whose key to delete.
+ */
+async function deleteApiKey(provider: ProviderId): Promise<void> {
+  await figma.clientStorage.setAsync(getApiKeyStorageKey(provider), undefined);
+  console.log('API key deleted');
+}
+
+/**
+ * Retrieves the provider settings, filling any missing fields with defaults.
+ * @returns {Promise<ProviderSettings>} The stored provider settings.
+ */
+async function getProviderSettings(): Promise<ProviderSettings> {
+  const stored = await figma.clientStorage.getAsync(PROVIDER_SETTINGS_STORAGE_KEY);
+  return Object.assign({}, defaultProviderSettings, stored || {});
+}
+
+/**
+ * Saves the provider settings to Figma's client storage.
+ * @param settings The settings to store.
+ */
+async function saveProviderSettings(settings: ProviderSettings): Promise<void> {
+  await figma.clientStorage.setAsync(PROVIDER_SETTINGS_STORAGE_KEY, settings);
+  console.log('Provider settings saved');
+}
+
+/**
+ * Retrieves the user's default generation config, filling missing fields with defaults.
+ * @returns {Promise<ChatGPTConfig>} The stored config.
+ */
+async function getGenerationConfig(): Promise<ChatGPTConfig> {
+  const stored = await figma.clientStorage.getAsync(GENERATION_CONFIG_STORAGE_KEY);
+  return normalizeGenerationConfig(stored);
+}
+
+/**
+ * Saves the user's default generation config to Figma's client storage.
+ * @param config The validated config to store.
+ */
+async function saveGenerationConfig(config: ChatGPTConfig): Promise<void> {
+  await figma.clientStorage.setAsync(GENERATION_CONFIG_STORAGE_KEY, config);
+  console.log('Generation config saved');
+}
+
+/**
+ * Retrieves the user's named presets from Figma's client storage.
+ * @returns {Promise<GenerationPreset[]>} The stored presets, or an empty list.
+ */
+async function getPresets(): Promise<GenerationPreset[]> {
+  const stored = await figma.clientStorage.getAsync(PRESETS_STORAGE_KEY);
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+  return stored
+    .filter((preset: any) => preset && typeof preset.name === 'string')
+    .map((preset: any) => ({ name: preset.name, config: normalizeGenerationConfig(preset.config) }));
+}
+
+/**
+ * Saves the user's named presets to Figma's client storage.
+ * @param presets The full preset list to store.
+ */
+async function savePresets(presets: GenerationPreset[]): Promise<void> {
+  await figma.clientStorage.setAsync(PRESETS_STORAGE_KEY, presets);
+  console.log('Presets saved');
+}
+
+/**
+ * Retrieves the user's recent prompts from Figma's client storage, newest first.
+ */
+async function getRecentPrompts(): Promise<string[]> {
+  const stored = await figma.clientStorage.getAsync(RECENT_PROMPTS_STORAGE_KEY);
+  return Array.isArray(stored) ? stored.filter((prompt: any) => typeof prompt === 'string') : [];
+}
+
+/**
+ * Moves a prompt to the front of the recent prompts, dropping the oldest beyond MAX_RECENT_PROMPTS.
+ * @param prompt The prompt that was just sent.
+ */
+async function addRecentPrompt(prompt: string): Promise<void> {
+  const prompts = (await getRecentPrompts()).filter(recent => recent !== prompt);
+  await figma.clientStorage.setAsync(RECENT_PROMPTS_STORAGE_KEY, [prompt, ...prompts].slice(0, MAX_RECENT_PROMPTS));
+}
+
+/**
+ * Returns empty usage totals.
+ */
+function createUsageTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+/**
+ * Adds one request to usage totals.
+ * @param totals The totals to update.
+ * @param usage The request's token counts.
+ * @param cost The request's estimated cost, or null if the model has no known price.
+ */
+function addToUsageTotals(totals: UsageTotals, usage: TokenUsage, cost: number | null): void {
+  totals.requests++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cost += cost || 0;
+}
+
+/**
+ * Formats a date as the local day (YYYY-MM-DD) and month (YYYY-MM) usage is counted under.
+ */
+function getUsagePeriods(date: Date): { day: string; month: string } {
+  const month = `${date.getFullYear()}-${('0' + (date.getMonth() + 1)).slice(-2)}`;
+  return { day: `${month}-${('0' + date.getDate()).slice(-2)}`, month };
+}
+
+// Usage since the plugin was opened
+const sessionUsage: UsageTotals = createUsageTotals();
+// Pending ledger update; updates are chained so parallel requests do not overwrite each other's counts
+let usageWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Reads the usage ledger, starting the day's and month's totals over once their period has passed.
+ * @returns {Promise<UsageLedger>} The usage of the current day and month.
+ */
+async function getUsageLedger(): Promise<UsageLedger> {
+  const { day, month } = getUsagePeriods(new Date());
+  const stored = await figma.clientStorage.getAsync(USAGE_STORAGE_KEY);
+  const sameMonth = !!stored && stored.month === month;
+  return {
+    day,
+    dayTotals: sameMonth && stored.day === day ? stored.dayTotals : createUsageTotals(),
+    month,
+    monthTotals: sameMonth ? stored.monthTotals : createUsageTotals(),
+    models: sameMonth ? stored.models : {}
+  };
+}
+
+/**
+ * Adds a request's token usage and estimated cost to the session, day, month and model totals.
+ * @param model The model the request was billed under.
+ * @param usage The request's token counts.
+ */
+function recordTokenUsage(model: string, usage: TokenUsage): Promise<void> {
+  const cost = estimateCost(model, usage);
+  addToUsageTotals(sessionUsage, usage, cost);
+  usageWrite = usageWrite.then(async () => {
+    const ledger = await getUsageLedger();
+    addToUsageTotals(ledger.dayTotals, usage, cost);
+    addToUsageTotals(ledger.monthTotals, usage, cost);
+    ledger.models[model] = ledger.models[model] || createUsageTotals();
+    addToUsageTotals(ledger.models[model], usage, cost);
+    await figma.clientStorage.setAsync(USAGE_STORAGE_KEY, ledger);
+  }).catch(error => console.error('Error recording token usage:', error));
+  return usageWrite;
+}
+
+/**
+ * Throws when the estimated spending of the budget period has reached the limit in the options.
+ */
+async function assertWithinBudget(): Promise<void> {
+  const options = await getOptions();
+  if (options.budgetPeriod === 'off') return;
+  const ledger = await getUsageLedger();
+  const spent = options.budgetPeriod === 'day' ? ledger.dayTotals.cost : ledger.monthTotals.cost;
+  if (spent >= options.budgetLimit) {
+    throw new BudgetExceededError(`Spending limit reached: about $${spent.toFixed(2)} of $${options.budgetLimit.toFixed(2)} ${options.budgetPeriod === 'day' ? 'today' : 'this month'}. Raise the limit in settings to keep generating.`);
+  }
+}
+
+/**
+ * Reads the preset stored in the current document, shared by everyone editing the file.
+ * @returns {GenerationPreset | null} The document preset, or null if none is set or it is unreadable.
+ */
+function getDocumentPreset(): GenerationPreset | null {
+  const raw = figma.root.getPluginData(DOCUMENT_PRESET_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return { name: String(parsed.name), config: normalizeGenerationConfig(parsed.config) };
+  } catch (e) {
+    console.error('Error parsing document preset:', e);
+    return null;
+  }
+}
+
+/**
+ * Stores a preset in the current document, or clears it when null.
+ * The full config is copied so teammates without the personal preset get the same settings.
+ * @param preset The preset to store, or null to remove it.
+ */
+function setDocumentPreset(preset: GenerationPreset | null): void {
+  figma.root.setPluginData(DOCUMENT_PRESET_KEY, preset ? JSON.stringify(preset) : '');
+}
+
+/**
+ * Cleans up a style guide from the UI or the document: text fields are trimmed, and empty
+ * terms, words and examples are dropped.
+ * @param value The raw style guide.
+ */
+function normalizeStyleGuide(value: any): StyleGuide {
+  const text = (entry: any) => typeof entry === 'string' ? entry.trim() : '';
+  const list = (entries: any) => (Array.isArray(entries) ? entries : []).map(text).filter(entry => entry !== '');
+  return {
+    tone: text(value && value.tone),
+    audience: text(value && value.audience),
+    preferredTerms: (Array.isArray(value && value.preferredTerms) ? value.preferredTerms : [])
+      .map((term: any) => ({ use: text(term && term.use), insteadOf: list(term && term.insteadOf) }))
+      .filter((term: PreferredTerm) => term.use && term.insteadOf.length > 0),
+    bannedWords: list(value && value.bannedWords),
+    examples: list(value && value.examples)
+  };
+}
+
+/**
+ * Tells whether a style guide has any content.
+ * @param guide The style guide.
+ */
+function isStyleGuideEmpty(guide: StyleGuide): boolean {
+  return !guide.tone && !guide.audience && guide.preferredTerms.length === 0 && guide.bannedWords.length === 0 && guide.examples.length === 0;
+}
+
+/**
+ * Reads the document's brand voice. It is stored as shared plugin data, so other plugins
+ * and tooling working on the file can read it too.
+ * @returns {StyleGuide | null} The style guide, or null if none is set or it is unreadable.
+ */
+function getStyleGuide(): StyleGuide | null {
+  const raw = figma.root.getSharedPluginData(SHARED_PLUGIN_DATA_NAMESPACE, STYLE_GUIDE_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const guide = normalizeStyleGuide(JSON.parse(raw));
+    return isStyleGuideEmpty(guide) ? null : guide;
+  } catch (e) {
+    console.error('Error parsing style guide:', e);
+    return null;
+  }
+}
+
+/**
+ * Stores the document's brand voice, or clears it when the guide is empty.
+ * @param guide The style guide to store.
+ */
+function setStyleGuide(guide: StyleGuide): void {
+  figma.root.setSharedPluginData(SHARED_PLUGIN_DATA_NAMESPACE, STYLE_GUIDE_KEY, isStyleGuideEmpty(guide) ? '' : JSON.stringify(guide));
+}
+
+/**
+ * Retrieves the plugin options, filling any missing fields with defaults.
+ * @returns {Promise<PluginOptions>} The stored options.
+ */
+async function getOptions(): Promise<PluginOptions> {
+  const stored = await figma.clientStorage.getAsync(OPTIONS_STORAGE_KEY);
+  return Object.assign({}, defaultOptions, stored || {});
+}
+
+/**
+ * Saves the plugin options to Figma's client storage.
+ * @param options The options to store.
+ */
+async function saveOptions(options: PluginOptions): Promise<void> {
+  await figma.clientStorage.setAsync(OPTIONS_STORAGE_KEY, options);
+  console.log('Options saved');
+}
+
+// Locale codes accepted for translation, e.g. "de", "de-DE", "zh-Hant-TW"
+const LOCALE_CODE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+/**
+ * Cleans up translation settings from the UI or storage: locale codes must look like BCP 47 tags,
+ * and empty or duplicate entries are dropped.
+ * @param value The raw settings.
+ */
+function normalizeTranslationSettings(value: any): TranslationSettings {
+  const unique = (entries: any, accept: (entry: string) => boolean) => (Array.isArray(entries) ? entries : [])
+    .map(entry => String(entry).trim())
+    .filter((entry, i, all) => entry && accept(entry) && all.indexOf(entry) === i);
+  return {
+    locales: unique(value && value.locales, entry => LOCALE_CODE_PATTERN.test(entry)),
+    glossary: unique(value && value.glossary, () => true)
+  };
+}
+
+/**
+ * Retrieves the translation settings last used.
+ * @returns {Promise<TranslationSettings>} The stored settings, or empty ones.
+ */
+async function getTranslationSettings(): Promise<TranslationSettings> {
+  return normalizeTranslationSettings(await figma.clientStorage.getAsync(TRANSLATION_SETTINGS_STORAGE_KEY));
+}
+
+/**
+ * Saves the translation settings to Figma's client storage.
+ * @param settings The settings to store.
+ */
+async function saveTranslationSettings(settings: TranslationSettings): Promise<void> {
+  await figma.clientStorage.setAsync(TRANSLATION_SETTINGS_STORAGE_KEY, settings);
+}
+
+/**
+ * Derives the plugin data key for a selection's conversation from its slot node ids,
+ * independent of selection order.
+ * @param slotIds Ids of the selected text nodes, or of the cards in structured mode.
+ */
+function getConversationKey(slotIds: string[]): string {
+  const joined = [...slotIds].sort().join(',');
+  // djb2 hash keeps the key short for large selections
+  let hash = 5381;
+  for (let i = 0; i < joined.length; i++) {
+    hash = ((hash << 5) + hash + joined.charCodeAt(i)) | 0;
+  }
+  return `${CONVERSATION_KEY_PREFIX}${(hash >>> 0).toString(36)}-${slotIds.length}`;
+}
+
+/**
+ * Reads a selection's conversation from the document.
+ * @param slotIds Ids of the selected slots.
+ * @returns {ConversationTurn[]} The turns, oldest first (empty if none or unreadable).
+ */
+function getConversation(slotIds: string[]): ConversationTurn[] {
+  const raw = figma.root.getPluginData(getConversationKey(slotIds));
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Error parsing conversation:', e);
+    return [];
+  }
+}
+
+/**
+ * Appends a turn to a selection's conversation, keeping the most recent turns.
+ * @param slotIds Ids of the selected slots.
+ * @param turn The prompt and generated items.
+ */
+function addConversationTurn(slotIds: string[], turn: ConversationTurn): void {
+  const key = getConversationKey(slotIds);
+  const turns = getConversation(slotIds).concat(turn).slice(-MAX_CONVERSATION_TURNS);
+  figma.root.setPluginData(key, JSON.stringify(turns));
+  // Mark the conversation as the most recent, and delete the oldest ones past the cap
+  const index = getConversationIndex().filter(indexed => indexed !== key).concat(key);
+  for (const evicted of index.splice(0, Math.max(0, index.length - MAX_CONVERSATIONS))) {
+    figma.root.setPluginData(evicted, '');
+  }
+  figma.root.setPluginData(CONVERSATION_INDEX_KEY, JSON.stringify(index));
+}
+
+/**
+ * Deletes a selection's conversation from the document.
+ * @param slotIds Ids of the selected slots.
+ */
+function clearConversation(slotIds: string[]): void {
+  const key = getConversationKey(slotIds);
+  figma.root.setPluginData(key, '');
+  figma.root.setPluginData(CONVERSATION_INDEX_KEY, JSON.stringify(getConversationIndex().filter(indexed => indexed !== key)));
+}
+
+/**
+ * Reads the keys of the document's conversations, least recently used first. Documents from
+ * before the index was kept get one listing their existing conversations.
+ * @returns {string[]} The conversation keys.
+ */
+function getConversationIndex(): string[] {
+  const raw = figma.root.getPluginData(CONVERSATION_INDEX_KEY);
+  if (!raw) {
+    return figma.root.getPluginDataKeys().filter(key => key.indexOf(CONVERSATION_KEY_PREFIX) === 0);
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((key: any) => typeof key === 'string') : [];
+  } catch (e) {
+    console.error('Error parsing conversation index:', e);
+    return [];
+  }
+}
+
+// Plugin data key on each written text node holding its generated versions
+const NODE_VERSIONS_KEY = 'versions';
+// Most versions stored per node; older ones are dropped
+const MAX_NODE_VERSIONS = 20;
+
+/**
+ * Creates the record of a generation request, stored with every node it writes.
+ * @param prompt The user's prompt.
+ * @param model The model that generated the text.
+ * @param provider The provider label.
+ */
+function createGenerationRecord(prompt: string, model: string, provider: string): GenerationRecord {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    prompt,
+    model,
+    provider,
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Reads the generated versions stored on a node.
+ * @param node The node to read.
+ * @returns {NodeVersion[]} The versions, oldest first (empty if none or unreadable).
+ */
+function getNodeVersions(node: BaseNode): NodeVersion[] {
+  const raw = node.getPluginData(NODE_VERSIONS_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Error parsing node versions:', e);
+    return [];
+  }
+}
+
+/**
+ * Records the node's current text as a version of the given generation. A node written again by
+ * the same generation (e.g. shortened after overflowing) updates that version instead.
+ * @param textElement The written node.
+ * @param generation The generation that wrote it.
+ * @param previousText The node's text before the write.
+ */
+function recordNodeVersion(textElement: TextNode, generation: GenerationRecord, previousText: string): void {
+  const versions = getNodeVersions(textElement);
+  const last = versions[versions.length - 1];
+  if (last && last.generationId === generation.id) {
+    last.text = textElement.characters;
+  } else {
+    versions.push({
+      generationId: generation.id,
+      prompt: generation.prompt,
+      model: generation.model,
+      provider: generation.provider,
+      timestamp: generation.timestamp,
+      previousText,
+      text: textElement.characters
+    });
+  }
+  textElement.setPluginData(NODE_VERSIONS_KEY, JSON.stringify(versions.slice(-MAX_NODE_VERSIONS)));
+}
+
+// Plugin data key on each slot node (text layer or card) holding its generated alternatives
+const SLOT_VARIANTS_KEY = 'variants';
+
+/**
+ * Reads the alternatives stored on a slot node.
+ * @param node The text layer, or the card in structured mode.
+ * @returns {SlotVariants | null} The stored variants, or null if none or unreadable.
+ */
+function getSlotVariants(node: BaseNode): SlotVariants | null {
+  const raw = node.getPluginData(SLOT_VARIANTS_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const stored = JSON.parse(raw);
+    return stored && Array.isArray(stored.variants) && stored.variants.length > 0 ? stored : null;
+  } catch (e) {
+    console.warn('Ignoring unreadable variants on node', node.id);
+    return null;
+  }
+}
+
+/**
+ * Stores a slot node's alternatives, or removes them when `variants` is null.
+ * @param node The text layer, or the card in structured mode.
+ * @param variants The alternatives to store.
+ */
+function setSlotVariants(node: BaseNode, variants: SlotVariants | null): void {
+  node.setPluginData(SLOT_VARIANTS_KEY, variants ? JSON.stringify(variants) : '');
+}
+
+/**
+ * Returns whether a slot's variants are pinned, so regenerating unpinned slots leaves it alone.
+ * @param node The text layer, or the card in structured mode.
+ */
+function isSlotPinned(node: BaseNode): boolean {
+  const variants = getSlotVariants(node);
+  return !!variants && variants.pinned;
+}
+
+// Plugin data key on each generated slot node holding the prompt its Regenerate button replays
+const RELAUNCH_PROMPT_KEY = 'relaunch-prompt';
+// Longest prompt excerpt shown under the Regenerate button
+const RELAUNCH_DESCRIPTION_LENGTH = 120;
+
+/**
+ * Stores the prompt that generated a slot and adds the Regenerate and Shorten buttons to the
+ * node's properties panel.
+ * @param node The text layer, or the card in structured mode.
+ * @param relaunch The prompt and preset to replay.
+ */
+function setRelaunchPrompt(node: SceneNode, relaunch: RelaunchPrompt): void {
+  node.setPluginData(RELAUNCH_PROMPT_KEY, JSON.stringify(relaunch));
+  const description = relaunch.prompt.length > RELAUNCH_DESCRIPTION_LENGTH
+    ? relaunch.prompt.slice(0, RELAUNCH_DESCRIPTION_LENGTH - 1) + '…'
+    : relaunch.prompt;
+  try {
+    node.setRelaunchData({ regenerate: description, shorten: '' });
+  } catch (e) {
+    // Some nodes (e.g. layers inside instances) cannot carry relaunch buttons; the prompt is still stored
+    console.warn('Could not add relaunch buttons to node', node.id, e);
+  }
+}
+
+/**
+ * Reads the prompt stored on a generated slot node.
+ * @param node The node to read.
+ * @returns {RelaunchPrompt | null} The stored prompt, or null if none or unreadable.
+ */
+function getRelaunchPrompt(node: BaseNode): RelaunchPrompt | null {
+  const raw = node.getPluginData(RELAUNCH_PROMPT_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const stored = JSON.parse(raw);
+    return stored && typeof stored.prompt === 'string' && stored.prompt
+      ? { prompt: stored.prompt, preset: typeof stored.preset === 'string' ? stored.preset : '' }
+      : null;
+  } catch (e) {
+    console.warn('Ignoring unreadable relaunch prompt on node', node.id);
+    return null;
+  }
+}
+
+/**
+ * Picks the config for a request: the named preset if given, else the document preset,
+ * else the user's default config.
+ * @param presetName Name of a personal preset chosen for this request, or empty for the default.
+ */
+async function resolveGenerationConfig(presetName?: string): Promise<ChatGPTConfig> {
+  if (presetName) {
+    const presets = await getPresets();
+    const preset = presets.find(p => p.name === presetName);
+    if (preset) {
+      return preset.config;
+    }
+    const documentPreset = getDocumentPreset();
+    if (documentPreset && documentPreset.name === presetName) {
+      return documentPreset.config;
+    }
+    throw new Error(`Preset "${presetName}" not found`);
+  }
+  const documentPreset = getDocumentPreset();
+  if (documentPreset) {
+    return documentPreset.config;
+  }
+  return await getGenerationConfig();
+}
+
+// ============================================================================
+// MESSAGE HANDLERS
+// ============================================================================
+
+// Default plugin window size
+const UI_SIZE = { width: 400, height: 188 };
+// Window height while the review panel is open
+const REVIEW_UI_HEIGHT = 480;
+
+// True while a quick action or relaunch button runs with the UI hidden
+let isHeadless = false;
+// Last toast of a headless run, shown when the plugin closes
+let headlessMessage: string | undefined;
+
+/**
+ * Shows the hidden UI of a headless run for results that need the user (review, skipped nodes).
+ * The plugin then stays open after the run.
+ */
+function revealHeadlessUI(): void {
+  if (!isHeadless) return;
+  isHeadless = false;
+  figma.ui.show();
+}
+
+/**
+ * Updates the UI with the current count of selected text elements.
+ */
+async function updateSelectionCount(): Promise<void> {
+  const structured = await getStructuredSelection();
+  if (structured) {
+    // Structured mode: the count is the number of cards to fill
+    figma.ui.postMessage({
+      type: 'selection-update',
+      count: structured.cards.length,
+      mode: 'structured',
+      fields: structured.fieldNames,
+      conversationTurns: getConversation(structured.cards.map(card => card.node.id)).length,
+      hasHistory: getStructuredTextElements(structured).some(textElement => !!textElement.getPluginData(NODE_VERSIONS_KEY)),
+      hasVariants: structured.cards.some(card => !!card.node.getPluginData(SLOT_VARIANTS_KEY))
+    });
+    return;
+  }
+  const textElements = await getUnorderedSelectedTextElements();
+  figma.ui.postMessage({
+    type: 'selection-update',
+    count: textElements.length,
+    mode: 'flat',
+    conversationTurns: textElements.length > 0 ? getConversation(textElements.map(textElement => textElement.id)).length : 0,
+    hasHistory: textElements.some(textElement => !!textElement.getPluginData(NODE_VERSIONS_KEY)),
+    hasVariants: textElements.some(textElement => !!textElement.getPluginData(SLOT_VARIANTS_KEY))
+  });
+}
+
+/**
+ * Returns the slot ids of the current selection: card ids in structured mode, else text node ids.
+ */
+async function getSelectionSlotIds(): Promise<string[]> {
+  const structured = await getStructuredSelection();
+  return structured
+    ? structured.cards.map(card => card.node.id)
+    : (await getUnorderedSelectedTextElements()).map(textElement => textElement.id);
+}
+
+/**
+ * Returns the text layers whose history is shown for the current selection, in replacement order.
+ */
+async function getHistoryTextElements(): Promise<TextNode[]> {
+  const structured = await getStructuredSelection();
+  return structured ? getStructuredTextElements(structured) : await getOrderedSelectedTextElements();
+}
+
+/**
+ * Sends the generation history of the current selection to the UI and enlarges the window to show it.
+ */
+async function handleGetHistory(): Promise<void> {
+  const textElements = await getHistoryTextElements();
+  figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+  figma.ui.postMessage({
+    type: 'history-loaded',
+    generations: buildGenerationHistory(textElements)
+  });
+}
+
+/**
+ * Restores node versions from the history panel: each entry sets a node to a generation's text,
+ * or to the text it had before that generation.
+ * @param msg The message containing `{ nodeId, generationId, target: 'generated' | 'previous' }` entries.
+ */
+async function handleRestoreHistory(msg: any): Promise<void> {
+  try {
+    const { variableMode } = await getOptions();
+    const results: TextWriteResult[] = [];
+    for (const entry of Array.isArray(msg.entries) ? msg.entries : []) {
+      const node = await figma.getNodeByIdAsync(String(entry.nodeId));
+      if (!node || node.type !== 'TEXT') {
+        results.push({ nodeId: String(entry.nodeId), name: String(entry.nodeId), status: 'error', message: 'Layer no longer exists' });
+        continue;
+      }
+      const version = getNodeVersions(node).find(v => v.generationId === entry.generationId);
+      if (!version) {
+        results.push({ nodeId: node.id, name: node.name, status: 'error', message: 'Version not found' });
+        continue;
+      }
+      results.push(await setTextElementCharacters(node, entry.target === 'previous' ? version.previousText : version.text, variableMode));
+    }
+    const restored = results.filter(result => result.status === 'updated' || result.status === 'overflow').length;
+    const skipped = results.length - restored;
+    sendToastToUI(`Restored ${restored} text ${restored === 1 ? 'element' : 'elements'}`
+      + (skipped > 0 ? `, skipped ${skipped}` : ''), skipped > 0 ? 'error' : 'success');
+    await handleGetHistory();
+    await updateSelectionCount();
+  } catch (error) {
+    console.error('Error restoring history:', error);
+    sendToastToUI(error instanceof Error ? error.message : 'Could not restore text', 'critical');
+  }
+}
+
+/**
+ * Selects every text layer on the current page that still shows generated text, so reviewers
+ * can see which copy came from the plugin.
+ */
+async function handleSelectGeneratedText(): Promise<void> {
+  const hasAccess = await ensurePageAccess();
+  if (!hasAccess) return;
+  const generated = figma.currentPage
+    .findAllWithCriteria({ types: ['TEXT'], pluginData: { keys: [NODE_VERSIONS_KEY] } })
+    .filter(isShowingGeneratedText);
+  if (generated.length === 0) {
+    sendToastToUI('No generated text on this page', 'error');
+    return;
+  }
+  figma.currentPage.selection = generated;
+  figma.viewport.scrollAndZoomIntoView(generated);
+  sendToastToUI(`Selected ${generated.length} generated text ${generated.length === 1 ? 'element' : 'elements'}`, 'success');
+}
+
+/**
+ * Summarizes a variant for the variants panel: the text, or a card's field texts joined.
+ * @param variant A text, or an object of field texts.
+ */
+function getVariantPreview(variant: any): string {
+  if (variant && typeof variant === 'object' && !Array.isArray(variant)) {
+    return Object.keys(variant).map(key => itemToText(variant[key])).join(' · ');
+  }
+  return itemToText(variant);
+}
+
+/**
+ * Sends the variants of the selected slots to the UI and enlarges the window to show them.
+ * The prompt offered for regenerating is the one of the newest generation among the slots.
+ */
+async function handleGetVariants(): Promise<void> {
+  const slots = await getSelectionSlots();
+  const storedVariants = slots.map(slot => getSlotVariants(slot.node));
+  const latest = storedVariants.reduce((newest: GenerationRecord | null, stored) =>
+    stored && (!newest || stored.generation.timestamp > newest.timestamp) ? stored.generation : newest, null);
+  const entries = slots.map((slot, i) => {
+    const stored = storedVariants[i];
+    return {
+      index: i + 1,
+      nodeId: slot.node.id,
+      name: slot.node.name,
+      count: stored ? stored.variants.length : 0,
+      current: stored ? stored.current : 0,
+      pinned: stored ? stored.pinned : false,
+      text: stored ? getVariantPreview(stored.variants[stored.current]) : ''
+    };
+  });
+  figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+  figma.ui.postMessage({
+    type: 'variants-loaded',
+    slots: entries,
+    prompt: latest ? latest.prompt : ''
+  });
+}
+
+/**
+ * Moves slots to their next or previous variant and writes it. Without a node id, every
+ * unpinned slot of the selection moves; the written text updates the generation's version
+ * in the node history.
+ * @param msg The message containing `step` (1 or -1) and an optional `nodeId`.
+ */
+async function handleCycleVariants(msg: any): Promise<void> {
+  try {
+    const step = msg.step < 0 ? -1 : 1;
+    const { variableMode } = await getOptions();
+    const results: TextWriteResult[] = [];
+    for (const slot of await getSelectionSlots()) {
+      const stored = getSlotVariants(slot.node);
+      if (!stored || (msg.nodeId ? slot.node.id !== msg.nodeId : stored.pinned)) continue;
+      stored.current = (stored.current + step + stored.variants.length) % stored.variants.length;
+      results.push(...await writeSlotItem(slot, stored.variants[stored.current], variableMode,
+        (textElement, previousText) => recordNodeVersion(textElement, stored.generation, previousText)));
+      setSlotVariants(slot.node, stored);
+    }
+    const skipped = results.filter(result => result.status !== 'updated').length;
+    if (skipped > 0) {
+      sendToastToUI(`Skipped ${skipped} text ${skipped === 1 ? 'element' : 'elements'}`, 'error');
+    }
+    await handleGetVariants();
+  } catch (error) {
+    console.error('Error cycling variants:', error);
+    sendToastToUI(error instanceof Error ? error.message : 'Could not switch variants', 'critical');
+  }
+}
+
+/**
+ * Pins or unpins a slot's current variant.
+ * @param msg The message containing the slot's `nodeId` and `pinned`.
+ */
+async function handlePinVariant(msg: any): Promise<void> {
+  const node = await figma.getNodeByIdAsync(String(msg.nodeId));
+  const stored = node ? getSlotVariants(node) : null;
+  if (!node || !stored) {
+    sendToastToUI('No variants stored on this layer', 'error');
+    return;
+  }
+  stored.pinned = !!msg.pinned;
+  setSlotVariants(node, stored);
+  await handleGetVariants();
+}
+
+/**
+ * Sends the current selection's conversation to the UI and enlarges the window to show it.
+ */
+async function handleGetConversation(): Promise<void> {
+  const slotIds = await getSelectionSlotIds();
+  figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+  figma.ui.postMessage({
+    type: 'conversation-loaded',
+    turns: slotIds.length > 0 ? getConversation(slotIds) : []
+  });
+}
+
+/**
+ * Handles the message to reset the current selection's conversation.
+ */
+async function handleResetConversation(): Promise<void> {
+  const slotIds = await getSelectionSlotIds();
+  if (slotIds.length > 0) {
+    clearConversation(slotIds);
+  }
+  sendToastToUI('Conversation reset', 'success');
+  figma.ui.postMessage({ type: 'conversation-loaded', turns: [] });
+  await updateSelectionCount();
+}
+
+/**
+ * Sends the loaded API key to the UI (for display or masking).
+ * @param apiKey The API key to send.
+ * @param provider The provider the key belongs to.
+ */
+function sendApiKeyLoaded(apiKey: string | null, provider: ProviderId): void {
+  figma.ui.postMessage({
+    type: 'api-key-loaded',
+    apiKey,
+    provider
+  });
+}
+
+/**
+ * Resolves the provider a key message refers to, defaulting to the active provider.
+ * @param msg The message from the UI, optionally carrying a provider id.
+ */
+async function resolveMessageProvider(msg: any): Promise<ProviderId> {
+  if (msg.provider && msg.provider in providers) {
+    return msg.provider;
+  }
+  const settings = await getProviderSettings();
+  return settings.provider;
+}
+
+/**
+ * Handles the message to save a new API key from the UI.
+ * @param msg The message containing the API key and optional provider.
+ */
+async function handleSaveApiKey(msg: any): Promise<void> {
+  const provider = await resolveMessageProvider(msg);
+  if (!msg.apiKey) {
+    await deleteApiKey(provider);
+    await updateSelectionCount(); // Update selection state in UI after API key deletion
+  } else {
+    await saveApiKey(msg.apiKey, provider);
+  }
+}
+
+/**
+ * Handles the message to retrieve the API key for the UI.
+ * Always replies so the UI can clear the field when switching to a provider without a key.
+ * @param msg The message from the UI, optionally carrying a provider id.
+ */
+async function handleGetApiKey(msg: any): Promise<void> {
+  const provider = await resolveMessageProvider(msg);
+  const apiKey = await getApiKey(provider);
+  sendApiKeyLoaded(apiKey, provider);
+}
+
+/**
+ * Handles the message to retrieve the provider settings for the UI.
+ */
+async function handleGetProviderSettings(): Promise<void> {
+  const settings = await getProviderSettings();
+  figma.ui.postMessage({
+    type: 'provider-settings-loaded',
+    settings
+  });
+}
+
+/**
+ * Handles the message to save provider settings from the UI.
+ * Unknown provider ids are replaced with the default provider.
+ * @param msg The message containing the settings.
+ */
+async function handleSaveProviderSettings(msg: any): Promise<void> {
+  const settings: ProviderSettings = Object.assign({}, defaultProviderSettings, msg.settings || {});
+  if (!(settings.provider in providers)) {
+    settings.provider = defaultProviderSettings.provider;
+  }
+  settings.timeoutSeconds = Math.max(5, Math.min(600, Number(settings.timeoutSeconds) || defaultProviderSettings.timeoutSeconds));
+  settings.maxRetries = Math.max(0, Math.min(10, Math.floor(Number(settings.maxRetries)) || 0));
+  await saveProviderSettings(settings);
+}
+
+/**
+ * Sends the generation config, personal presets and document preset to the UI.
+ */
+async function sendGenerationSettings(): Promise<void> {
+  figma.ui.postMessage({
+    type: 'generation-settings-loaded',
+    config: await getGenerationConfig(),
+    presets: await getPresets(),
+    documentPreset: getDocumentPreset(),
+    ranges: configRanges
+  });
+}
+
+/**
+ * Handles the message to save the default generation config from the UI.
+ * Invalid configs are rejected with an error toast and not stored.
+ * @param msg The message containing the config.
+ */
+async function handleSaveGenerationConfig(msg: any): Promise<void> {
+  const errors = validateGenerationConfig(msg.config);
+  if (errors.length > 0) {
+    sendToastToUI(errors[0], 'error');
+    return;
+  }
+  await saveGenerationConfig(normalizeGenerationConfig(msg.config));
+}
+
+/**
+ * Handles the message to create or overwrite a named preset.
+ * @param msg The message containing the preset name and config.
+ */
+async function handleSavePreset(msg: any): Promise<void> {
+  const name = typeof msg.name === 'string' ? msg.name.trim() : '';
+  if (!name) {
+    sendToastToUI('Preset name is required', 'error');
+    return;
+  }
+  const errors = validateGenerationConfig(msg.config);
+  if (errors.length > 0) {
+    sendToastToUI(errors[0], 'error');
+    return;
+  }
+  const presets = await getPresets();
+  const preset: GenerationPreset = { name, config: normalizeGenerationConfig(msg.config) };
+  const index = presets.findIndex(p => p.name === name);
+  if (index >= 0) {
+    presets[index] = preset;
+  } else {
+    presets.push(preset);
+  }
+  await savePresets(presets);
+  sendToastToUI(`Saved preset "${name}"`, 'success');
+  await sendGenerationSettings();
+}
+
+/**
+ * Handles the message to delete a named preset.
+ * @param msg The message containing the preset name.
+ */
+async function handleDeletePreset(msg: any): Promise<void> {
+  const presets = await getPresets();
+  await savePresets(presets.filter(p => p.name !== msg.name));
+  await sendGenerationSettings();
+}
+
+/**
+ * Handles the message to store a personal preset in the document, or clear the document preset.
+ * @param msg The message containing the preset name, or an empty name to clear.
+ */
+async function handleSetDocumentPreset(msg: any): Promise<void> {
+  if (!msg.name) {
+    setDocumentPreset(null);
+    sendToastToUI('Removed document preset', 'success');
+  } else {
+    const presets = await getPresets();
+    const preset = presets.find(p => p.name === msg.name);
+    if (!preset) {
+      sendToastToUI(`Preset "${msg.name}" not found`, 'error');
+      return;
+    }
+    setDocumentPreset(preset);
+    sendToastToUI(`"${preset.name}" is now the document preset`, 'success');
+  }
+  await sendGenerationSettings();
+}
+
+/**
+ * Handles the message to retrieve the plugin options for the UI.
+ */
+async function handleGetOptions(): Promise<void> {
+  figma.ui.postMessage({
+    type: 'options-loaded',
+    options: await getOptions()
+  });
+}
+
+/**
+ * Handles the message to save plugin options from the UI. Only known options are kept.
+ * @param msg The message containing a partial options object.
+ */
+async function handleSaveOptions(msg: any): Promise<void> {
+  const options = await getOptions();
+  for (const key of Object.keys(defaultOptions) as (keyof PluginOptions)[]) {
+    if (msg.options && typeof msg.options[key] === typeof defaultOptions[key]) {
+      (options as any)[key] = msg.options[key];
+    }
+  }
+  options.overflowRetries = Math.max(0, Math.min(5, Math.floor(options.overflowRetries) || 0));
+  options.layerNameFilter = options.layerNameFilter.trim();
+  if (ORDERING_STRATEGIES.indexOf(options.orderingStrategy) < 0) {
+    options.orderingStrategy = defaultOptions.orderingStrategy;
+  }
+  options.orderingTolerance = Math.max(0, Math.min(200, options.orderingTolerance || 0));
+  options.variableCollection = options.variableCollection.trim() || defaultOptions.variableCollection;
+  options.variableMode = options.variableMode.trim();
+  options.variantCount = Math.max(1, Math.min(MAX_VARIANT_COUNT, Math.floor(options.variantCount) || 1));
+  if (BUDGET_PERIODS.indexOf(options.budgetPeriod) < 0) {
+    options.budgetPeriod = defaultOptions.budgetPeriod;
+  }
+  options.budgetLimit = Math.max(0, Math.round((options.budgetLimit || 0) * 100) / 100);
+  await saveOptions(options);
+  // Selection filters change which layers count as selected, and ordering changes the preview
+  await updateSelectionCount();
+  if (indexPreview) {
+    await showIndexPreview();
+  }
+}
 
-    const data = JSON.parse(rawText);
-    const jsonContent = data.choices[0]?.message?.content || '[]';
-    try {
-      // Parse the JSON response (should always be an array)
-      const parsedResponse = JSON.parse(jsonContent);
-      if (Array.isArray(parsedResponse)) {
-        return {
-          content: JSON.stringify(parsedResponse, null, 2),
-          isArray: true,
-          items: parsedResponse
-        };
-      } else {
-        // If not an array, fallback to string content
-        return {
-          content: jsonContent,
-          isArray: false,
-          items: null
-        };
-      }
-    } catch (parseError) {
-      // Handles JSON parsing errors internally, returns fallback result. Not user-facing.
-      console.error('Error parsing JSON response:', parseError);
-      return {
-        content: jsonContent,
-        isArray: false,
-        items: null
-      };
+// Node ids offered in the last review proposal; apply requests for other nodes are ignored
+let pendingReviewNodeIds: Set<string> | null = null;
+// Generation that produced the pending proposal, recorded on the nodes it is applied to
+let pendingReviewGeneration: GenerationRecord | null = null;
+// Prompt the applied nodes' Regenerate buttons replay, null when the proposal did not come from a prompt
+let pendingReviewRelaunch: RelaunchPrompt | null = null;
+
+/**
+ * Sends the session, day, month and per-model token usage to the settings UI.
+ */
+async function handleGetUsage(): Promise<void> {
+  const ledger = await getUsageLedger();
+  const models = Object.keys(ledger.models).map(model => ({
+    model,
+    totals: ledger.models[model],
+    priced: estimateCost(model, { inputTokens: 0, outputTokens: 0 }) !== null
+  }));
+  figma.ui.postMessage({ type: 'usage-loaded', session: sessionUsage, day: ledger.dayTotals, month: ledger.monthTotals, models });
+}
+
+/**
+ * Sends the document's style guide to the UI.
+ */
+function handleGetStyleGuide(): void {
+  figma.ui.postMessage({ type: 'style-guide-loaded', guide: getStyleGuide() });
+}
+
+/**
+ * Handles the message to save the document's style guide (an empty guide removes it).
+ * @param msg The message containing the `guide`.
+ */
+function handleSaveStyleGuide(msg: any): void {
+  const guide = normalizeStyleGuide(msg.guide);
+  setStyleGuide(guide);
+  sendToastToUI(isStyleGuideEmpty(guide) ? 'Style guide removed from this file' : 'Style guide saved to this file', 'success');
+  handleGetStyleGuide();
+}
+
+/**
+ * Marks review entries whose proposed text breaks the style guide, with the preferred-term fix.
+ * @param entries The review entries.
+ * @param guide The style guide, or null when none is set.
+ */
+function annotateStyleViolations(entries: ReviewEntry[], guide: StyleGuide | null): ReviewEntry[] {
+  if (!guide) {
+    return entries;
+  }
+  return entries.map(entry => {
+    const violations = findStyleViolations(entry.proposedText, guide);
+    if (violations.length === 0) {
+      return entry;
+    }
+    const fixedText = applyPreferredTerms(entry.proposedText, guide);
+    return { ...entry, violations, fixedText: fixedText !== entry.proposedText ? fixedText : undefined };
+  });
+}
+
+/**
+ * Sends proposed replacements to the UI for approval instead of writing them.
+ * Enlarges the plugin window so the review panel has room.
+ * @param entries The proposed replacements, in replacement order.
+ * @param generation The generation that produced them.
+ * @param relaunch The prompt that produced them, for the Regenerate button of the applied nodes.
+ */
+function sendReviewProposal(entries: ReviewEntry[], generation: GenerationRecord, relaunch: RelaunchPrompt | null = null): void {
+  pendingReviewNodeIds = new Set(entries.map(entry => entry.nodeId));
+  pendingReviewGeneration = generation;
+  pendingReviewRelaunch = relaunch;
+  revealHeadlessUI();
+  figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+  figma.ui.postMessage({
+    type: 'review-proposal',
+    entries
+  });
+}
+
+/**
+ * Handles the message to apply the accepted entries from the review panel.
+ * @param msg The message containing accepted `{ nodeId, text }` entries.
+ */
+async function handleApplyReview(msg: any): Promise<void> {
+  try {
+    const pending = pendingReviewNodeIds || new Set<string>();
+    const entries = (Array.isArray(msg.entries) ? msg.entries : []).filter(
+      (entry: any) => pending.has(entry.nodeId) && typeof entry.text === 'string'
+    );
+    const generation = pendingReviewGeneration;
+    const relaunch = pendingReviewRelaunch;
+    const options = await getOptions();
+    if (options.writeToVariables) {
+      const nodes = await Promise.all(entries.map((entry: any) => figma.getNodeByIdAsync(entry.nodeId)));
+      const textElements = nodes.filter((node): node is TextNode => !!node && node.type === 'TEXT');
+      await bindTextVariables(textElements, await getVariableTarget(options.variableCollection));
     }
+    const results = await applyReviewedText(entries, options.variableMode, (textElement, previousText) => {
+      if (generation) recordNodeVersion(textElement, generation, previousText);
+      if (relaunch) setRelaunchPrompt(textElement, relaunch);
+    });
+    closeReview();
+    const updated = results.filter(result => result.status === 'updated').length;
+    sendWriteResults(results, updated > 0 ? `Updated ${updated} text ${updated === 1 ? 'element' : 'elements'}` : 'No changes applied');
   } catch (error) {
-    // Error is thrown to the caller for user-facing handling.
-    throw error;
+    console.error('Error applying reviewed text:', error);
+    sendToastToUI(error instanceof Error ? error.message : 'Could not apply changes', 'critical');
+    closeReview();
   }
 }
 
-// ============================================================================
-// FIGMA OPERATIONS
-// ============================================================================
+/**
+ * Clears the pending review and restores the default window size.
+ */
+function closeReview(): void {
+  pendingReviewNodeIds = null;
+  pendingReviewGeneration = null;
+  pendingReviewRelaunch = null;
+  figma.ui.resize(UI_SIZE.width, UI_SIZE.height);
+  figma.ui.postMessage({ type: 'review-closed' });
+}
 
 /**
- * Checks if the plugin has access to the current Figma page.
- * Shows a toast and returns false if not accessible.
- * @returns {Promise<boolean>} True if access is available, false otherwise.
+ * Reports the outcome of a write batch. A plain success toast when every node was updated and fits;
+ * otherwise the UI opens a summary listing each skipped or overflowing node and why.
+ * @param results One result per node written in the batch.
+ * @param successMessage Toast shown when nothing needs attention.
  */
-async function ensurePageAccess(): Promise<boolean> {
-  if (!figma.editorType) {
-    // We're not in an editor context
-    sendToastToUI('❌ This plugin requires an active Figma document', 'critical');
-    return false;
+function sendWriteResults(results: TextWriteResult[], successMessage: string): void {
+  const skipped = results.filter(result => result.status !== 'updated' && result.status !== 'overflow');
+  const overflowing = results.filter(result => result.status === 'overflow');
+  if (skipped.length === 0 && overflowing.length === 0) {
+    sendToastToUI(successMessage, 'success');
+    return;
   }
+  revealHeadlessUI();
+  figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+  figma.ui.postMessage({
+    type: 'write-results',
+    updated: results.length - skipped.length,
+    skipped,
+    overflowing
+  });
+}
+
+/**
+ * Checks every updated node for overflow and asks the model for shorter text for the offenders,
+ * up to `retries` rounds. Nodes that still do not fit are marked 'overflow' in the results.
+ * @param results The batch's write results; entries are replaced as nodes are rewritten.
+ * @param targets The written nodes with their sizes before the write.
+ * @param retries Maximum number of shorten requests.
+ * @param variableMode Mode bound string variables are written in ('' for the mode each layer displays).
+ * @param shorten Requests shorter variants for the given slot contexts and texts, in order.
+ * @returns {Map<string, string>} The final text of every node rewritten with shorter text, by node id.
+ */
+async function fitWrittenText(
+  results: TextWriteResult[],
+  targets: Map<string, TextFitTarget>,
+  retries: number,
+  variableMode: string,
+  shorten: (slots: TextSlotContext[], texts: string[]) => Promise<any[]>
+): Promise<Map<string, string>> {
+  const shortened = new Map<string, string>();
+  const findOffenders = (indexes: number[]) => {
+    const offenders: { resultIndex: number; target: TextFitTarget; issue: TextFitIssue }[] = [];
+    for (const resultIndex of indexes) {
+      const target = targets.get(results[resultIndex].nodeId);
+      if (results[resultIndex].status !== 'updated' || !target) continue;
+      const issue = checkTextFit(target.node, target.before);
+      if (issue) offenders.push({ resultIndex, target, issue });
+    }
+    return offenders;
+  };
+
+  let offenders = findOffenders(results.map((_, i) => i));
+  for (let attempt = 0; attempt < retries && offenders.length > 0; attempt++) {
+    const texts = offenders.map(offender => offender.target.node.characters);
+    const slots = offenders.map((offender, i) => ({
+      index: i + 1,
+      ...getTextSlotContext(offender.target.node),
+      currentText: texts[i],
+      maxChars: Math.max(1, Math.floor(texts[i].length * offender.issue.ratio * SHORTEN_TARGET_FACTOR))
+    }));
+    const items = await shorten(slots, texts);
+    for (let i = 0; i < offenders.length && i < items.length; i++) {
+      const text = itemToText(items[i]);
+      results[offenders[i].resultIndex] = await setTextElementCharacters(offenders[i].target.node, text, variableMode);
+      if (results[offenders[i].resultIndex].status === 'updated') {
+        shortened.set(offenders[i].target.node.id, text);
+      }
+    }
+    offenders = findOffenders(offenders.map(offender => offender.resultIndex));
+  }
+  for (const offender of offenders) {
+    results[offender.resultIndex] = { ...results[offender.resultIndex], status: 'overflow', message: offender.issue.reason };
+  }
+  return shortened;
+}
+
+// How long the index preview stays on the canvas
+const INDEX_PREVIEW_DURATION_MS = 8000;
+// Badge layer currently shown on the canvas, removed when the timer runs out
+let indexPreview: { group: GroupNode; timeout: number } | null = null;
+
+/**
+ * Shows (or refreshes) the on-canvas index preview for the current selection,
+ * numbering cards in structured mode and text elements otherwise.
+ */
+async function showIndexPreview(): Promise<void> {
+  removeIndexPreview();
+  const structured = await getStructuredSelection();
+  const nodes: SceneNode[] = structured
+    ? structured.cards.map(card => card.node)
+    : await getOrderedSelectedTextElements();
+  const group = await createIndexPreview(nodes);
+  if (group) {
+    indexPreview = { group, timeout: setTimeout(hideIndexPreview, INDEX_PREVIEW_DURATION_MS) };
+  }
+  figma.ui.postMessage({ type: 'index-preview-state', visible: !!group });
+}
+
+/**
+ * Removes the badge layer without notifying the UI.
+ */
+function removeIndexPreview(): void {
+  if (!indexPreview) return;
+  clearTimeout(indexPreview.timeout);
+  if (!indexPreview.group.removed) {
+    indexPreview.group.remove();
+  }
+  indexPreview = null;
+}
 
+/**
+ * Removes the index preview from the canvas, if shown.
+ */
+function hideIndexPreview(): void {
+  if (!indexPreview) return;
+  removeIndexPreview();
+  figma.ui.postMessage({ type: 'index-preview-state', visible: false });
+}
+
+/**
+ * Handles the index preview toggle from the UI.
+ */
+async function handleToggleIndexPreview(): Promise<void> {
+  if (indexPreview) {
+    hideIndexPreview();
+    return;
+  }
   try {
-    // Check if we can access the current page
-    const currentPage = figma.currentPage;
-    if (!currentPage) {
-      sendToastToUI('Can\'t access current page', 'critical');
-      return false;
+    await showIndexPreview();
+    if (!indexPreview) {
+      sendToastToUI('No text selected', 'error');
     }
-    return true;
   } catch (error) {
-    sendToastToUI('Error accessing page', 'critical');
-    return false;
+    console.error('Error showing index preview:', error);
+    sendToastToUI('Could not show the order preview', 'error');
   }
 }
 
+// Generation in progress; set by handleSendChatMessage so Cancel can reach it
+let currentGeneration: { cancelled: boolean } | null = null;
+
 /**
- * Replaces the text content of selected text elements with items from the provided array.
- * Sorts text elements visually (top-to-bottom, left-to-right) for consistent replacement.
- * Loads the required font for each text node before replacement.
- * @param items Array of strings (or objects, which are stringified) to insert into text elements.
- * @returns {Promise<TextNode[] | null>} The updated text nodes, or null if none selected.
+ * Posts a short status line for the running generation (e.g. while a response is corrected).
+ * @param text The status to show in place of the progress count.
  */
-async function replaceSelectedTextElements(items: any[]) {
-  const hasAccess = await ensurePageAccess();
-  if (!hasAccess) {
-    throw new Error('No access to current page');
-  }
+function sendGenerationStatus(text: string): void {
+  figma.ui.postMessage({
+    type: 'generation-status',
+    text
+  });
+}
 
-  const selection = figma.currentPage.selection;
-  const textElements = selection.filter(node => node.type === 'TEXT') as TextNode[];
+/**
+ * Waits before retrying a failed request, counting down in the UI ("Retrying in 4s (attempt 2/4)").
+ * Throws the cancellation error if the user cancels while waiting.
+ * @param generation The running generation.
+ * @param delayMs How long to wait.
+ * @param attempt The number of the attempt about to be made.
+ * @param totalAttempts The first attempt plus all retries.
+ */
+async function waitBeforeRetry(generation: { cancelled: boolean }, delayMs: number, attempt: number, totalAttempts: number): Promise<void> {
+  const until = Date.now() + delayMs;
+  while (Date.now() < until) {
+    if (generation.cancelled) {
+      throw new Error(GENERATION_CANCELLED);
+    }
+    sendGenerationStatus(`Retrying in ${Math.ceil((until - Date.now()) / 1000)}s (attempt ${attempt}/${totalAttempts})`);
+    await new Promise(resolve => setTimeout(resolve, Math.min(1000, until - Date.now())));
+  }
+  if (generation.cancelled) {
+    throw new Error(GENERATION_CANCELLED);
+  }
+  sendGenerationStatus(`Retrying (attempt ${attempt}/${totalAttempts})`);
+}
 
-  if (textElements.length === 0) {
+/**
+ * Loads the active provider with its settings and API key for a request handler, and binds
+ * withRetries to the retry setting and the generation's countdown. Shows the missing-key toast
+ * and returns null when the provider needs a key that is not set.
+ * @param generation The running generation; cancelling it stops pending retries.
+ */
+async function prepareRequest(generation: { cancelled: boolean }): Promise<PreparedRequest | null> {
+  const settings = await getProviderSettings();
+  const provider = getProvider(settings.provider);
+  const apiKey = await getApiKey(settings.provider) || '';
+  if (!apiKey && provider.requiresApiKey) {
+    sendToastToUI('Missing valid API key', 'critical');
     return null;
   }
+  return {
+    settings,
+    provider,
+    apiKey,
+    // Every request retries rate limits, server errors and timeouts, showing a countdown
+    withRequestRetries: run => withRetries(run, settings.maxRetries,
+      (delayMs, attempt, totalAttempts) => waitBeforeRetry(generation, delayMs, attempt, totalAttempts))
+  };
+}
 
-  // Helper: Get ancestor chain for a node (from node up to root)
-  function getAncestors(node: BaseNode): BaseNode[] {
-    const ancestors: BaseNode[] = [];
-    let current: BaseNode | null = node.parent;
-    while (current) {
-      ancestors.push(current);
-      // @ts-ignore: Figma types
-      current = current.parent || null;
+/**
+ * Sends invalid responses (too few items, wrong item types, unparsable) back to the model for
+ * correction, up to PARSE_CORRECTION_ATTEMPTS times.
+ * @param response The response to check.
+ * @param history The conversation so far, ending with the request's user message.
+ * @param expectedCount Number of items the response must have.
+ * @param validate Returns the problem with a response (see validateChatResponse), or null if valid.
+ * @param generation The running generation; cancelling it stops the corrections.
+ * @param request Sends a correction message after the given history and returns the new response.
+ * @returns {Promise<ChatGPTResponse>} The first valid response, or the last one if none was valid.
+ */
+async function correctChatResponse(
+  response: ChatGPTResponse,
+  history: ChatMessage[],
+  expectedCount: number,
+  validate: (response: ChatGPTResponse) => string | null,
+  generation: { cancelled: boolean },
+  request: (correction: string, history: ChatMessage[]) => Promise<ChatGPTResponse>
+): Promise<ChatGPTResponse> {
+  const messages = [...history];
+  let problem = validate(response);
+  for (let attempt = 1; problem && attempt <= PARSE_CORRECTION_ATTEMPTS; attempt++) {
+    console.warn(`Invalid response (${problem}), requesting a correction`);
+    sendGenerationStatus(`Fixing response (attempt ${attempt}/${PARSE_CORRECTION_ATTEMPTS})`);
+    const correction = buildCorrectionMessage(problem, expectedCount);
+    messages.push({ role: 'assistant', content: response.content });
+    response = await request(correction, messages);
+    messages.push({ role: 'user', content: correction });
+    if (generation.cancelled) {
+      throw new Error(GENERATION_CANCELLED);
     }
-    return ancestors;
+    problem = validate(response);
   }
+  return response;
+}
 
-  // Step 1: Build ancestor chains for all selected text nodes
-  const ancestorChains = textElements.map(getAncestors);
+/**
+ * Posts generation progress ("7 of 24 filled") to the UI.
+ * @param progress Filled and total node counts.
+ */
+function sendProgressToUI(progress: { filled: number; total: number }): void {
+  figma.ui.postMessage({
+    type: 'generation-progress',
+    filled: progress.filled,
+    total: progress.total
+  });
+}
 
-  // Step 2: Find the lowest common ancestor (LCA) that is an auto layout frame
-  function findLowestCommonAutoLayoutAncestor(chains: BaseNode[][]): FrameNode | null {
-    if (chains.length === 0) return null;
-    // Reverse chains so root is first
-    const reversed = chains.map(chain => [...chain].reverse());
-    let lca: BaseNode | null = null;
-    for (let i = 0; ; i++) {
-      const nodesAtLevel = reversed.map(chain => chain[i]);
-      if (nodesAtLevel.some(n => n === undefined)) break;
-      const first = nodesAtLevel[0];
-      if (nodesAtLevel.every(n => n === first)) {
-        lca = first;
+/**
+ * Turns an error from a provider request into a user-facing message.
+ * @param error The caught error.
+ */
+function getUserErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return "Unexpected error. Please try again.";
+  }
+  if (error.message.includes("Incorrect API key provided")) {
+    return "Your OpenAI API key is incorrect. Please check your key and try again. You can find your API key at https://platform.openai.com/account/api-keys.";
+  }
+  if (error.message.includes("401")) {
+    return "Unauthorized: Please check your API key.";
+  }
+  return error.message;
+}
+
+// =====================
+// handleSendChatMessage: Catches errors from callChatGPT and sets user-facing error messages for the UI.
+// =====================
+/**
+ * Handles the main chat message event from the UI.
+ * Gets the provider settings and API key, validates selection, calls the provider, and manages user notifications.
+ * Catches errors and displays user-friendly messages.
+ * With variants on, every slot gets several alternatives: the first is written and all are stored
+ * on the slot's node for cycling.
+ * Selections whose response would not fit Max tokens are generated in ordered chunks, a few at a
+ * time; a failed chunk is retried on its own and its slots are reported if it fails again.
+ * @param msg The message from the UI containing the user prompt, optional preset name, and
+ *   `onlyUnpinned` to regenerate only the slots whose variants are not pinned.
+ */
+async function handleSendChatMessage(msg: any): Promise<void> {
+  const generation = { cancelled: false };
+  const progress = { filled: 0, total: 0 };
+  currentGeneration = generation;
+  hideIndexPreview();
+  try {
+    // Get provider settings and its API key from storage
+    const request = await prepareRequest(generation);
+    if (!request) {
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    const { settings, provider, apiKey, withRequestRetries } = request;
+    
+    // Structured mode for selections of cards, else flat mode for plain text elements.
+    // Capture the order up front so streamed items land in the right nodes even if the selection changes
+    const structured = await getStructuredSelection();
+    const isRegenerated = (node: SceneNode) => !msg.onlyUnpinned || !isSlotPinned(node);
+    if (structured) {
+      structured.cards = structured.cards.filter(card => isRegenerated(card.node));
+    }
+    const orderedTextElements = structured ? [] : (await getOrderedSelectedTextElements()).filter(isRegenerated);
+    const slotCount = structured ? structured.cards.length : orderedTextElements.length;
+    if (slotCount < 1) {
+      sendToastToUI(msg.onlyUnpinned ? 'Every slot is pinned' : 'No text selected', 'error');
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    await addRecentPrompt(msg.message);
+    // Box sizes before writing, to detect overflow afterwards
+    const fitTargets = captureFitTargets(structured ? getStructuredTextElements(structured) : orderedTextElements);
+    // Call the configured LLM provider
+    const config = await resolveGenerationConfig(msg.preset);
+    // Recorded on every node this request writes, for the history panel
+    const generationRecord = createGenerationRecord(msg.message, config.model || provider.defaultModel, provider.label);
+    const recordVersion: TextWrittenCallback = (textElement, previousText) => recordNodeVersion(textElement, generationRecord, previousText);
+
+    const options = await getOptions();
+    // In variants mode each item is an array of alternatives, and the slot shows the first one
+    const variantCount = options.variantCount;
+    const getSlotItem = (item: any) => variantCount > 1 ? item[0] : item;
+    const isValidItem = (item: any) => variantCount > 1
+      ? isValidVariantList(item, context.fieldNames, 1)
+      : isValidChatItem(item, context.fieldNames);
+    // Collection receiving one string variable per written layer, when writing to variables
+    const variableTarget = options.writeToVariables && !options.reviewBeforeApply ? await getVariableTarget(options.variableCollection) : null;
+
+    // Writes one item into its slot: a text element, or a card's fields in structured mode
+    const results: TextWriteResult[] = [];
+    const slots: SelectionSlot[] = structured
+      ? structured.cards.map(card => ({ node: card.node, card }))
+      : orderedTextElements.map(textElement => ({ node: textElement, card: null }));
+    const relaunch: RelaunchPrompt = { prompt: msg.message, preset: typeof msg.preset === 'string' ? msg.preset : '' };
+    const writeSlot = async (index: number, item: any): Promise<void> => {
+      if (variableTarget) {
+        await bindTextVariables(structured ? getCardTextElements(structured.cards[index]) : [orderedTextElements[index]], variableTarget);
+      }
+      results.push(...await writeSlotItem(slots[index], item, options.variableMode, recordVersion));
+      setRelaunchPrompt(slots[index].node, relaunch);
+    };
+
+    const styleGuide = getStyleGuide();
+    const context: PromptContext = {
+      fieldNames: structured ? structured.fieldNames : null,
+      slots: null,
+      nativeJson: options.nativeJsonMode,
+      styleGuide,
+      checkCopy: false,
+      variantCount
+    };
+    if (options.includeSlotContext) {
+      context.slots = structured
+        ? structured.cards.map((card, i) => getCardSlotContext(card, i + 1))
+        : orderedTextElements.map((textElement, i) => ({ index: i + 1, ...getTextSlotContext(textElement) }));
+    }
+    // Earlier prompts and results for this selection, so follow-ups refine the current content
+    const slotIds = structured ? structured.cards.map(card => card.node.id) : orderedTextElements.map(textElement => textElement.id);
+    const threadHistory = options.keepConversation
+      ? buildConversationHistory(
+        getConversation(slotIds),
+        config.model || provider.defaultModel,
+        config.max_tokens,
+        SYSTEM_PROMPT_TOKEN_ESTIMATE + estimateTokens(msg.message) + (context.slots ? estimateTokens(JSON.stringify(context.slots)) : 0)
+      )
+      : [];
+    // Large selections are generated in ordered chunks whose responses fit Max tokens; small ones in one request
+    const slotTexts = slots.map(slot => (slot.card ? getCardTextElements(slot.card) : [slot.node as TextNode]).map(textElement => textElement.characters).join(' '));
+    const fieldCount = structured ? structured.fieldNames.length : 1;
+    const chunkBudget = Math.floor(config.max_tokens * CHUNK_OUTPUT_SHARE / variantCount);
+    const chunks = chunkByTokens(slots.map((slot, i) => i), i => slotTexts[i], chunkBudget,
+      Math.max(1, Math.floor(chunkBudget / ((MIN_ITEM_TOKENS + ITEM_OVERHEAD_TOKENS) * fieldCount))));
+    // Raw items per slot, in selection order; slots of failed chunks stay undefined
+    const rawItems: any[] = slots.map(() => undefined);
+    // Each chunk's prompt names its part of the list and quotes what earlier chunks generated
+    const getChunkRequest = (chunk: number[]): { message: string; context: PromptContext } => {
+      if (chunks.length === 1) {
+        return { message: msg.message, context };
+      }
+      const earlierItems = rawItems.filter(item => item !== undefined && isValidItem(item)).map(getSlotItem);
+      return {
+        message: buildChunkMessage(msg.message, chunk[0], chunk.length, slotCount, earlierItems),
+        context: Object.assign({}, context, {
+          slots: context.slots ? chunk.map((slotIndex, i) => Object.assign({}, (context.slots as (TextSlotContext | CardSlotContext)[])[slotIndex], { index: i + 1 })) : null
+        })
+      };
+    };
+
+    // Warn before sending when the response is unlikely to fit Max tokens or the prompt the context window
+    const firstRequest = getChunkRequest(chunks[0]);
+    const { request: firstChatRequest } = buildChatRequest(apiKey, settings, config, firstRequest.message, chunks[0].length, firstRequest.context, threadHistory);
+    const sizeWarning = getRequestSizeWarning(
+      estimateTokens(JSON.stringify(firstChatRequest.body)),
+      estimateResponseTokens(chunks[0].map(i => slotTexts[i]), fieldCount, variantCount),
+      config.model || provider.defaultModel,
+      config.max_tokens
+    );
+    if (sizeWarning) {
+      sendToastToUI(sizeWarning, 'error');
+    }
+    progress.total = slotCount;
+    // Slots already written from streamed items; later passes only fill the rest
+    const writtenSlots = new Set<number>();
+    // Headless runs have no progress to show, and their hidden UI may still be loading
+    const streaming = options.streamResponses && !isHeadless;
+    let writeChain = Promise.resolve();
+    if (streaming) {
+      sendProgressToUI(progress);
+    }
+
+    // Requests one chunk and stores its items; throws if the response is not a list
+    const generateChunk = async (chunk: number[]): Promise<void> => {
+      const { message, context: chunkContext } = getChunkRequest(chunk);
+      let aiResponse: ChatGPTResponse;
+      if (streaming) {
+        aiResponse = await withRequestRetries(() => streamChatGPT(apiKey, settings, config, message, chunk.length, chunkContext, threadHistory, (item, index) => {
+          // In review mode nothing is written until the user approves; invalid items wait for the correction,
+          // items that break the style guide are held back for review, and a retried chunk skips what it already wrote
+          if (options.reviewBeforeApply || index >= chunk.length || !isValidItem(item) || writtenSlots.has(chunk[index])) return;
+          if (styleGuide && findItemStyleViolations(getSlotItem(item), styleGuide).length > 0) return;
+          writeChain = writeChain.then(async () => {
+            if (generation.cancelled || writtenSlots.has(chunk[index])) return;
+            await writeSlot(chunk[index], getSlotItem(item));
+            writtenSlots.add(chunk[index]);
+            progress.filled++;
+            sendProgressToUI(progress);
+          });
+        }));
+        await writeChain;
       } else {
-        break;
+        aiResponse = await withRequestRetries(() => callChatGPT(apiKey, settings, config, message, chunk.length, chunkContext, threadHistory));
+      }
+      // The sandbox fetch cannot be aborted, so a late non-streamed response is discarded here
+      if (generation.cancelled) {
+        throw new Error(GENERATION_CANCELLED);
+      }
+
+      aiResponse = await correctChatResponse(aiResponse, [...threadHistory, { role: 'user', content: message }], chunk.length,
+        candidate => validateChatResponse(candidate, chunk.length, context.fieldNames, variantCount), generation,
+        (correction, history) => withRequestRetries(() => callChatGPT(apiKey, settings, config, correction, chunk.length, chunkContext, history)));
+      const responseItems = aiResponse.items;
+      if (!aiResponse.isArray || !responseItems) {
+        throw new Error(structured
+          ? 'The response was not a list of objects. Please try again.'
+          : 'The response was not a list of texts. Please try again.');
+      }
+      chunk.forEach((slotIndex, i) => {
+        rawItems[slotIndex] = responseItems[i];
+      });
+    };
+
+    // A single request fails as a whole; a failed chunk is retried on its own, then its slots are reported.
+    // Errors no retry can fix (a rejected API key, the spending limit) end the whole generation at once
+    const chunkErrors: (Error | null)[] = chunks.map(() => null);
+    let chunksDone = 0;
+    const runChunk = async (chunkIndex: number): Promise<void> => {
+      for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt++) {
+        if (generation.cancelled) {
+          throw new Error(GENERATION_CANCELLED);
+        }
+        try {
+          await generateChunk(chunks[chunkIndex]);
+          chunkErrors[chunkIndex] = null;
+          break;
+        } catch (error) {
+          if (chunks.length === 1 || (error instanceof Error && error.message === GENERATION_CANCELLED)) {
+            throw error;
+          }
+          // Every other chunk would fail the same way: stop them and report this error
+          if (isFatalRequestError(error)) {
+            generation.cancelled = true;
+            throw error;
+          }
+          console.warn(`Chunk ${chunkIndex + 1} of ${chunks.length} failed (attempt ${attempt}/${CHUNK_ATTEMPTS}):`, error);
+          chunkErrors[chunkIndex] = error instanceof Error ? error : new Error(String(error));
+        }
+      }
+      chunksDone++;
+      if (chunks.length > 1 && !streaming) {
+        sendGenerationStatus(`Generated ${chunksDone} of ${chunks.length} parts`);
+      }
+    };
+    // The first chunk runs alone so the others can follow its style
+    await runChunk(0);
+    await runWithConcurrency(chunks.slice(1).map((chunk, i) => () => runChunk(i + 1)), CHUNK_CONCURRENCY);
+    if (chunkErrors.every(error => error !== null)) {
+      throw chunkErrors[0];
+    }
+
+    // Items that are still invalid are left out rather than written (and so are invalid alternatives)
+    const variantLists = rawItems.map(item => {
+      if (variantCount <= 1) return null;
+      const variants = Array.isArray(item) ? item.filter(variant => isValidChatItem(variant, context.fieldNames)) : [];
+      return variants.length > 0 ? variants : null;
+    });
+    const items = variantCount > 1
+      ? variantLists.map(variants => variants ? variants[0] : null)
+      : rawItems.map(item => isValidChatItem(item, context.fieldNames) ? item : null);
+    // Slots left without text, with the reason: their chunk failed, or their item was missing or invalid
+    const unfilledResults: TextWriteResult[] = [];
+    chunks.forEach((chunk, chunkIndex) => chunk.forEach(slotIndex => {
+      if (writtenSlots.has(slotIndex) || (items[slotIndex] !== null && items[slotIndex] !== undefined)) return;
+      const chunkError = chunkErrors[chunkIndex];
+      unfilledResults.push({
+        nodeId: slots[slotIndex].node.id,
+        name: slots[slotIndex].node.name,
+        status: 'error',
+        message: `Slot ${slotIndex + 1} not generated: ${chunkError ? getUserErrorMessage(chunkError) : 'the response had no valid text for it'}`
+      });
+    }));
+    // Slots keep the alternatives of their latest generation; a single-text generation clears them
+    slots.forEach((slot, i) => {
+      if (items[i] === null || items[i] === undefined) return;
+      const variants = variantLists[i];
+      setSlotVariants(slot.node, variants ? { generation: generationRecord, variants, current: 0, pinned: false } : null);
+    });
+    if (options.keepConversation) {
+      // Failed slots stay in place as null, so the next turn still sees which item belongs to which slot
+      addConversationTurn(slotIds, {
+        prompt: msg.message,
+        response: JSON.stringify(Array.from(items, item => item === undefined ? null : item)),
+        timestamp: Date.now()
+      });
+    }
+    await updateSelectionCount();
+
+    // Either hand the proposal to the review panel or replace text in Figma right away
+    if (options.reviewBeforeApply) {
+      const entries = structured
+        ? buildStructuredReviewEntries(structured.cards, items)
+        : await buildReviewEntries(items, orderedTextElements);
+      sendReviewProposal(annotateStyleViolations(entries, styleGuide), generationRecord, relaunch);
+      if (unfilledResults.length > 0) {
+        sendToastToUI(`${unfilledResults.length} of ${slotCount} slots were not generated`, 'error');
+      }
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    // Items that break the style guide are not written; they go to the review panel afterwards
+    const heldItems = items.map(item => item !== null && styleGuide && findItemStyleViolations(item, styleGuide).length > 0 ? item : null);
+    for (let i = 0; i < slotCount && i < items.length; i++) {
+      if (writtenSlots.has(i) || items[i] === null || heldItems[i] !== null) continue;
+      await writeSlot(i, items[i]);
+      writtenSlots.add(i);
+    }
+    progress.filled = writtenSlots.size;
+    // Ask for shorter text where the new text overflows its box
+    const shortenedTexts = await fitWrittenText(results, fitTargets, options.overflowRetries, options.variableMode, async (slots, texts) => {
+      const shortened = await withRequestRetries(() => callChatGPT(apiKey, settings, config, buildShortenMessage(texts), slots.length, { fieldNames: null, slots, nativeJson: options.nativeJsonMode, styleGuide, checkCopy: false, variantCount: 1 }));
+      if (generation.cancelled) {
+        throw new Error(GENERATION_CANCELLED);
+      }
+      return shortened.isArray && Array.isArray(shortened.items) ? shortened.items : [];
+    });
+    // Shortened slots store the shorter text as the variant they show, so cycling back to it keeps the fit
+    slots.forEach((slot, i) => {
+      const stored = shortenedTexts.size > 0 && variantLists[i] ? getSlotVariants(slot.node) : null;
+      if (stored) {
+        stored.variants[stored.current] = applyShortenedText(slot, stored.variants[stored.current], shortenedTexts);
+        setSlotVariants(slot.node, stored);
+      }
+    });
+    // Shortened nodes keep this generation's version, updated to their final text
+    for (const result of results) {
+      const target = fitTargets.get(result.nodeId);
+      if (target && (result.status === 'updated' || result.status === 'overflow')) {
+        recordVersion(target.node, target.node.characters);
+      }
+    }
+    // Show unified success toast, or the per-node summary if any node was skipped or not generated
+    results.push(...unfilledResults);
+    sendWriteResults(results, progress.filled < slotCount ? `Updated ${progress.filled} of ${slotCount}` : 'Updated text');
+    if (heldItems.some(item => item !== null)) {
+      const entries = structured
+        ? buildStructuredReviewEntries(structured.cards, heldItems)
+        : await buildReviewEntries(heldItems, orderedTextElements);
+      sendReviewProposal(annotateStyleViolations(entries, styleGuide), generationRecord, relaunch);
+    }
+    figma.ui.postMessage({ type: 'chat-complete', ...progress });
+  } catch (error) {
+    if (error instanceof Error && error.message === GENERATION_CANCELLED) {
+      // Nodes filled before the cancel keep their new text
+      sendToastToUI(`Cancelled: ${progress.filled} of ${progress.total} filled`, 'error');
+      figma.ui.postMessage({ type: 'chat-complete', ...progress });
+      return;
+    }
+    // User-facing error handling and messaging happens here.
+    console.error('Error processing chat message:', error);
+    sendToastToUI(getUserErrorMessage(error), 'critical');
+    figma.ui.postMessage({ type: 'chat-complete', ...progress });
+  } finally {
+    if (currentGeneration === generation) {
+      currentGeneration = null;
+    }
+  }
+}
+
+/**
+ * Sends the saved translation settings to the UI and enlarges the window for the translate panel.
+ */
+async function handleGetTranslationSettings(): Promise<void> {
+  figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+  figma.ui.postMessage({ type: 'translation-settings-loaded', settings: await getTranslationSettings() });
+}
+
+/**
+ * Translates the selected frames: duplicates each frame once per target locale and fills the
+ * copies with translations. Each distinct source text is translated once per locale, in batches,
+ * with the source text and layer context as slot context. Glossary terms are swapped for tokens
+ * so they come back untranslated, and copied text that no longer fits its box is reported.
+ * @param msg The message containing `locales`, `glossary` and an optional preset name.
+ */
+async function handleTranslateFrames(msg: any): Promise<void> {
+  const generation = { cancelled: false };
+  const progress = { filled: 0, total: 0 };
+  currentGeneration = generation;
+  hideIndexPreview();
+  try {
+    const request = await prepareRequest(generation);
+    if (!request) {
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    const { settings, provider, apiKey, withRequestRetries } = request;
+
+    const translation = normalizeTranslationSettings(msg);
+    await saveTranslationSettings(translation);
+    const frames = (await ensurePageAccess()) ? getTranslatableSelection() : [];
+    if (translation.locales.length === 0 || frames.length === 0) {
+      sendToastToUI(frames.length === 0 ? 'Select the frames to translate' : 'Choose at least one locale', 'error');
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    // Each distinct text is translated once, with the context of the first layer showing it
+    const frameTextNodes = frames.map(frame => getTranslatableTextNodes(frame).filter(textNode => textNode.characters.trim() !== ''));
+    const sources = new Map<string, TextNode>();
+    frameTextNodes.forEach(textNodes => textNodes.forEach(textNode => {
+      if (!sources.has(textNode.characters)) sources.set(textNode.characters, textNode);
+    }));
+    if (sources.size === 0) {
+      sendToastToUI('No text to translate in the selected frames', 'error');
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+
+    const config = await resolveGenerationConfig(msg.preset);
+    const options = await getOptions();
+    const batches = chunkByTokens(Array.from(sources.keys()), text => text,
+      Math.floor(config.max_tokens * TRANSLATION_OUTPUT_SHARE), TRANSLATION_BATCH_SIZE);
+    progress.total = frameTextNodes.reduce((sum, textNodes) => sum + textNodes.length, 0) * translation.locales.length;
+    sendProgressToUI(progress);
+
+    const results: TextWriteResult[] = [];
+    const fitTargets = new Map<string, TextFitTarget>();
+    const copies: SceneNode[] = [];
+    for (let localeIndex = 0; localeIndex < translation.locales.length; localeIndex++) {
+      const locale = translation.locales[localeIndex];
+      // Translate every batch before creating the copies, so a cancel leaves no half-translated frame
+      const translations = new Map<string, string>();
+      for (let b = 0; b < batches.length; b++) {
+        sendGenerationStatus(batches.length > 1 ? `Translating to ${locale} (${b + 1}/${batches.length})` : `Translating to ${locale}`);
+        const batch = batches[b];
+        const slots = batch.map((text, i) => ({
+          index: i + 1,
+          ...getTextSlotContext(sources.get(text)!),
+          currentText: protectGlossaryTerms(text, translation.glossary)
+        }));
+        // The style guide is written for the source language, so it is left out of translations
+        const context: PromptContext = { fieldNames: null, slots, nativeJson: options.nativeJsonMode, styleGuide: null, checkCopy: false, variantCount: 1 };
+        const message = buildTranslationMessage(locale, batch.length, slots.some((slot, i) => slot.currentText !== batch[i]));
+        let response = await withRequestRetries(() => callChatGPT(apiKey, settings, config, message, batch.length, context));
+        if (generation.cancelled) {
+          throw new Error(GENERATION_CANCELLED);
+        }
+        response = await correctChatResponse(response, [{ role: 'user', content: message }], batch.length,
+          candidate => validateChatResponse(candidate, batch.length, null), generation,
+          (correction, history) => withRequestRetries(() => callChatGPT(apiKey, settings, config, correction, batch.length, context, history)));
+        if (!response.isArray || !response.items) {
+          throw new Error(`The translation to ${locale} was not a list of texts. Please try again.`);
+        }
+        const items = response.items;
+        batch.forEach((text, i) => {
+          const translated = readTranslatedItem(items[i], translation.glossary);
+          if (translated !== null) {
+            translations.set(text, translated);
+          }
+        });
+      }
+
+      const generationRecord = createGenerationRecord(`Translate to ${locale}`, config.model || provider.defaultModel, provider.label);
+      for (let f = 0; f < frames.length; f++) {
+        const copy = duplicateForLocale(frames[f], locale, localeIndex);
+        copies.push(copy);
+        const copyTextNodes = getTranslatableTextNodes(copy).filter(textNode => textNode.characters.trim() !== '');
+        for (let i = 0; i < copyTextNodes.length && i < frameTextNodes[f].length; i++) {
+          const sourceText = frameTextNodes[f][i].characters;
+          const translated = translations.get(sourceText);
+          if (translated === undefined) continue;
+          const textNode = copyTextNodes[i];
+          fitTargets.set(textNode.id, { node: textNode, before: captureTextBox(textNode) });
+          const result = await setTextElementCharacters(textNode, translated, options.variableMode);
+          if (result.status === 'updated') {
+            recordNodeVersion(textNode, generationRecord, sourceText);
+          }
+          results.push({ ...result, name: `${locale} · ${result.name}` });
+          progress.filled++;
+          sendProgressToUI(progress);
+        }
       }
     }
-    // Check if LCA is an auto layout frame
-    if (lca && lca.type === 'FRAME' && 'layoutMode' in lca && (lca as FrameNode).layoutMode !== 'NONE') {
-      return lca as FrameNode;
+
+    // Translations are not shortened automatically; overflowing layers are listed for a manual fix
+    await fitWrittenText(results, fitTargets, 0, options.variableMode, async () => []);
+    figma.currentPage.selection = copies;
+    figma.viewport.scrollAndZoomIntoView([...frames, ...copies]);
+    sendWriteResults(results, progress.filled < progress.total
+      ? `Translated ${progress.filled} of ${progress.total} texts`
+      : `Translated into ${translation.locales.length} ${translation.locales.length === 1 ? 'locale' : 'locales'}`);
+    figma.ui.postMessage({ type: 'chat-complete', ...progress });
+  } catch (error) {
+    if (error instanceof Error && error.message === GENERATION_CANCELLED) {
+      // Copies for locales finished before the cancel are kept
+      sendToastToUI(`Cancelled: ${progress.filled} of ${progress.total} translated`, 'error');
+      figma.ui.postMessage({ type: 'chat-complete', ...progress });
+      return;
+    }
+    console.error('Error translating frames:', error);
+    sendToastToUI(getUserErrorMessage(error), 'critical');
+    figma.ui.postMessage({ type: 'chat-complete', ...progress });
+  } finally {
+    if (currentGeneration === generation) {
+      currentGeneration = null;
     }
-    return null;
   }
+}
 
-  const lcaAutoLayout = findLowestCommonAutoLayoutAncestor(ancestorChains);
-  let orderedTextElements: TextNode[] = [];
+// Generation recorded on the nodes the fixes from the last copy check are applied to
+let copyCheckGeneration: GenerationRecord | null = null;
 
-  if (lcaAutoLayout) {
-    // Step 3: Recursively collect selected text nodes in visual order within the LCA
-    const selectedSet = new Set(textElements);
-    function collectTextNodesInOrder(node: BaseNode): TextNode[] {
-      let result: TextNode[] = [];
-      if (node.type === 'TEXT' && selectedSet.has(node as TextNode)) {
-        result.push(node as TextNode);
-      } else if ('children' in node && Array.isArray((node as any).children)) {
-        for (const child of (node as any).children) {
-          result = result.concat(collectTextNodesInOrder(child));
-        }
+/**
+ * Checks the selected text without changing it: sends each node's current text, in replacement
+ * order and with its slot context, and asks for spelling, grammar, consistency and truncation
+ * findings. Large selections are checked in batches, so consistency is only compared within a
+ * batch. The findings open in the copy check panel.
+ * @param msg The message containing optional extra instructions (`message`) and a preset name.
+ */
+async function handleCheckCopy(msg: any): Promise<void> {
+  const generation = { cancelled: false };
+  currentGeneration = generation;
+  hideIndexPreview();
+  try {
+    const request = await prepareRequest(generation);
+    if (!request) {
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    const { settings, provider, apiKey, withRequestRetries } = request;
+
+    const textElements = (await getOrderedSelectedTextElements()).filter(textElement => textElement.characters.trim() !== '');
+    if (textElements.length === 0) {
+      sendToastToUI('No text selected', 'error');
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    const instructions = typeof msg.message === 'string' ? msg.message.trim() : '';
+    const config = await resolveGenerationConfig(msg.preset);
+    const options = await getOptions();
+    const batches = chunkByTokens(textElements, textElement => textElement.characters,
+      Math.floor(config.max_tokens * COPY_CHECK_INPUT_SHARE), COPY_CHECK_BATCH_SIZE);
+
+    const entries: CopyCheckEntry[] = [];
+    for (let b = 0; b < batches.length; b++) {
+      sendGenerationStatus(batches.length > 1 ? `Checking copy (${b + 1}/${batches.length})` : 'Checking copy');
+      const batch = batches[b];
+      const context: PromptContext = {
+        fieldNames: null,
+        slots: batch.map((textElement, i) => ({ index: i + 1, ...getTextSlotContext(textElement) })),
+        nativeJson: options.nativeJsonMode,
+        styleGuide: getStyleGuide(),
+        checkCopy: true,
+        variantCount: 1
+      };
+      const message = buildCopyCheckMessage(batch.length, instructions);
+      let response = await withRequestRetries(() => callChatGPT(apiKey, settings, config, message, batch.length, context));
+      if (generation.cancelled) {
+        throw new Error(GENERATION_CANCELLED);
       }
-      return result;
+      response = await correctChatResponse(response, [{ role: 'user', content: message }], batch.length,
+        candidate => validateCopyCheckResponse(candidate, batch.length), generation,
+        (correction, history) => withRequestRetries(() => callChatGPT(apiKey, settings, config, correction, batch.length, context, history)));
+      if (!response.isArray || !response.items) {
+        throw new Error('The copy check did not return a list of findings. Please try again.');
+      }
+      const items = response.items;
+      batch.forEach((textElement, i) => {
+        entries.push({
+          index: entries.length + 1,
+          nodeId: textElement.id,
+          name: textElement.name,
+          text: textElement.characters,
+          findings: normalizeCopyFindings(items[i], textElement.characters)
+        });
+      });
     }
-    orderedTextElements = collectTextNodesInOrder(lcaAutoLayout);
-  } else {
-    // Fallback: previous logic
-    const parents = textElements.map(t => t.parent).filter(Boolean);
-    const uniqueParents = Array.from(new Set(parents));
-    if (
-      uniqueParents.length === 1 &&
-      uniqueParents[0] !== null &&
-      'layoutMode' in uniqueParents[0] &&
-      (uniqueParents[0] as FrameNode).layoutMode !== 'NONE'
-    ) {
-      const parent = uniqueParents[0] as FrameNode;
-      const selectedSet = new Set(textElements);
-      orderedTextElements = parent.children.filter(
-        node => node.type === 'TEXT' && selectedSet.has(node as TextNode)
-      ) as TextNode[];
+
+    copyCheckGeneration = createGenerationRecord(
+      instructions ? `Copy check fix: ${instructions}` : 'Copy check fix', config.model || provider.defaultModel, provider.label);
+    const findingCount = entries.reduce((sum, entry) => sum + entry.findings.length, 0);
+    if (findingCount === 0) {
+      sendToastToUI(`No issues found in ${entries.length} text ${entries.length === 1 ? 'element' : 'elements'}`, 'success');
     } else {
-      orderedTextElements = [...textElements].sort((a, b) => {
-        if (Math.abs(a.y - b.y) < 10) {
-          return a.x - b.x;
-        }
-        return a.y - b.y;
+      figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+      figma.ui.postMessage({
+        type: 'copy-check-results',
+        entries: entries.filter(entry => entry.findings.length > 0),
+        checked: entries.length
       });
     }
+    figma.ui.postMessage({ type: 'chat-complete' });
+  } catch (error) {
+    if (error instanceof Error && error.message === GENERATION_CANCELLED) {
+      sendToastToUI('Copy check cancelled', 'error');
+      figma.ui.postMessage({ type: 'chat-complete' });
+      return;
+    }
+    console.error('Error checking copy:', error);
+    sendToastToUI(getUserErrorMessage(error), 'critical');
+    figma.ui.postMessage({ type: 'chat-complete' });
+  } finally {
+    if (currentGeneration === generation) {
+      currentGeneration = null;
+    }
   }
-
-  // Replace each text element with corresponding array item
-  for (let i = 0; i < orderedTextElements.length && i < items.length; i++) {
-    const textElement = orderedTextElements[i];
-    const item = items[i];
-    const itemText = typeof item === 'string' ? item : JSON.stringify(item);
-    const currentFont = textElement.fontName as FontName;
-    await figma.loadFontAsync(currentFont);
-    textElement.characters = itemText;
-  }
-
-  return orderedTextElements;
 }
 
 /**
- * Counts the number of selected text elements on the current page.
- * @returns {Promise<number>} The count of selected text nodes.
+ * Applies one fix from the copy check panel: replaces the finding's excerpt in the node's text,
+ * as long as the node still contains it. The fix is recorded in the node's history.
+ * @param msg The message containing `nodeId`, `original` and `replacement`.
  */
-async function getSelectedTextElementsCount(): Promise<number> {
-  const hasAccess = await ensurePageAccess();
-  if (!hasAccess) {
-    return 0;
+async function handleApplyCopyFix(msg: any): Promise<void> {
+  try {
+    const node = await figma.getNodeByIdAsync(String(msg.nodeId));
+    if (!node || node.type !== 'TEXT') {
+      sendToastToUI('Layer no longer exists', 'error');
+      return;
+    }
+    const original = String(msg.original || '');
+    const start = original ? node.characters.indexOf(original) : -1;
+    if (start < 0) {
+      sendToastToUI('The text changed since the check; run it again', 'error');
+      return;
+    }
+    const previousText = node.characters;
+    const text = previousText.slice(0, start) + String(msg.replacement || '') + previousText.slice(start + original.length);
+    const before = captureTextBox(node);
+    let result = await setTextElementCharacters(node, text, (await getOptions()).variableMode);
+    if (result.status === 'updated') {
+      if (copyCheckGeneration) recordNodeVersion(node, copyCheckGeneration, previousText);
+      const issue = checkTextFit(node, before);
+      if (issue) result = { ...result, status: 'overflow', message: issue.reason };
+    }
+    // Reported with toasts, since the write results panel would cover the copy check panel
+    const applied = result.status === 'updated' || result.status === 'overflow';
+    figma.ui.postMessage({ type: 'copy-fix-applied', nodeId: node.id, text: node.characters, applied });
+    if (result.status === 'overflow') {
+      sendToastToUI(`Fix applied (${result.message})`, 'error');
+    } else {
+      sendToastToUI(applied ? 'Fix applied' : `Not applied: ${result.message}`, applied ? 'success' : 'error');
+    }
+    await updateSelectionCount();
+  } catch (error) {
+    console.error('Error applying copy fix:', error);
+    sendToastToUI(error instanceof Error ? error.message : 'Could not apply the fix', 'critical');
   }
-
-  const selection = figma.currentPage.selection;
-  const textElements = selection.filter(node => node.type === 'TEXT') as TextNode[];
-  return textElements.length;
 }
 
-// ============================================================================
-// STORAGE
-// ============================================================================
-
-// Storage key for the OpenAI API key in Figma client storage
-const API_KEY_STORAGE_KEY = 'openai-api-key';
-
 /**
- * Saves the OpenAI API key to Figma's client storage.
- * @param apiKey The API key to store.
+ * Selects a node and zooms to it, switching to its page first if needed.
+ * @param msg The message containing the `nodeId`.
  */
-async function saveApiKey(apiKey: string): Promise<void> {
-  await figma.clientStorage.setAsync(API_KEY_STORAGE_KEY, apiKey);
-  console.log('API key saved');
+async function handleSelectNode(msg: any): Promise<void> {
+  const node = await figma.getNodeByIdAsync(String(msg.nodeId));
+  if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+    sendToastToUI('Layer no longer exists', 'error');
+    return;
+  }
+  let page: BaseNode | null = node.parent;
+  while (page && page.type !== 'PAGE') {
+    page = page.parent;
+  }
+  if (page && page !== figma.currentPage) {
+    await figma.setCurrentPageAsync(page as PageNode);
+  }
+  figma.currentPage.selection = [node];
+  figma.viewport.scrollAndZoomIntoView([node]);
 }
 
 /**
- * Retrieves the OpenAI API key from Figma's client storage.
- * @returns {Promise<string | null>} The stored API key, or null if not set.
+ * Handles the Regenerate relaunch button: replays the stored prompt of each selected slot.
+ * Slots generated by different prompts are regenerated prompt by prompt, each group selected
+ * in turn, and the original selection is restored afterwards.
  */
-async function getApiKey(): Promise<string | null> {
-  return await figma.clientStorage.getAsync(API_KEY_STORAGE_KEY);
+async function handleRegenerateSelection(): Promise<void> {
+  const selection = figma.currentPage.selection;
+  const groups = new Map<string, { relaunch: RelaunchPrompt; nodes: SceneNode[] }>();
+  for (const node of selection) {
+    const relaunch = getRelaunchPrompt(node);
+    if (!relaunch) continue;
+    const key = JSON.stringify(relaunch);
+    const group = groups.get(key);
+    if (group) {
+      group.nodes.push(node);
+    } else {
+      groups.set(key, { relaunch, nodes: [node] });
+    }
+  }
+  if (groups.size === 0) {
+    sendToastToUI('Select text generated from a prompt to regenerate it', 'error');
+    return;
+  }
+  for (const group of Array.from(groups.values())) {
+    figma.currentPage.selection = group.nodes;
+    await handleSendChatMessage({ message: group.relaunch.prompt, preset: group.relaunch.preset });
+  }
+  figma.currentPage.selection = selection;
 }
 
 /**
- * Deletes the OpenAI API key from Figma's client storage.
+ * Handles the Shorten relaunch button: asks for a shorter version of each selected text layer
+ * (or each text layer of the selected cards), about SHORTEN_COMMAND_FACTOR of its length, and
+ * checks the shorter text still fits its box. A generated layer keeps its generation's entry in
+ * the history, updated to the shorter text.
  */
-async function deleteApiKey(): Promise<void> {
-  await figma.clientStorage.setAsync(API_KEY_STORAGE_KEY, undefined);
-  console.log('API key deleted');
-}
+async function handleShortenSelection(): Promise<void> {
+  const generation = { cancelled: false };
+  currentGeneration = generation;
+  try {
+    const request = await prepareRequest(generation);
+    if (!request) {
+      return;
+    }
+    const { settings, provider, apiKey, withRequestRetries } = request;
+    // Selected cards are shortened through their text layers, as they are filled
+    const structured = await getStructuredSelection();
+    const textElements = (structured ? getStructuredTextElements(structured) : await getOrderedSelectedTextElements())
+      .filter(textElement => textElement.characters.trim() !== '');
+    if (textElements.length === 0) {
+      sendToastToUI('No text selected', 'error');
+      return;
+    }
+    // Box sizes before writing, to detect overflow afterwards
+    const fitTargets = captureFitTargets(textElements);
+    const config = await resolveGenerationConfig();
+    const options = await getOptions();
+    const texts = textElements.map(textElement => textElement.characters);
+    const slots = textElements.map((textElement, i) => ({
+      index: i + 1,
+      ...getTextSlotContext(textElement),
+      currentText: texts[i],
+      maxChars: Math.max(1, Math.floor(texts[i].length * SHORTEN_COMMAND_FACTOR))
+    }));
+    const context: PromptContext = { fieldNames: null, slots, nativeJson: options.nativeJsonMode, styleGuide: getStyleGuide(), checkCopy: false, variantCount: 1 };
+    const message = buildShortenMessage(texts);
+    let response = await withRequestRetries(() => callChatGPT(apiKey, settings, config, message, slots.length, context));
+    // The sandbox fetch cannot be aborted, so a late response is discarded here
+    if (generation.cancelled) {
+      throw new Error(GENERATION_CANCELLED);
+    }
+    response = await correctChatResponse(response, [{ role: 'user', content: message }], slots.length,
+      candidate => validateChatResponse(candidate, slots.length, null), generation,
+      (correction, history) => withRequestRetries(() => callChatGPT(apiKey, settings, config, correction, slots.length, context, history)));
+    if (!response.isArray || !response.items) {
+      throw new Error('The response was not a list of texts. Please try again.');
+    }
 
-// ============================================================================
-// MESSAGE HANDLERS
-// ============================================================================
+    const shortenRecord = createGenerationRecord('Shorten', config.model || provider.defaultModel, provider.label);
+    // History entry each shortened node was recorded under, with its text before shortening
+    const versions = new Map<string, { record: GenerationRecord; previousText: string }>();
+    const results: TextWriteResult[] = [];
+    for (let i = 0; i < textElements.length && i < response.items.length; i++) {
+      if (!isValidChatItem(response.items[i], null)) continue;
+      const textElement = textElements[i];
+      // The latest generation's entry is updated in place, so Regenerate still replays its prompt
+      const last = getNodeVersions(textElement).pop();
+      const record = last
+        ? { id: last.generationId, prompt: last.prompt, model: last.model, provider: last.provider, timestamp: last.timestamp }
+        : shortenRecord;
+      const result = await setTextElementCharacters(textElement, itemToText(response.items[i]), options.variableMode);
+      if (result.status === 'updated') {
+        recordNodeVersion(textElement, record, texts[i]);
+        versions.set(textElement.id, { record, previousText: texts[i] });
+      }
+      results.push(result);
+    }
+    // Ask for shorter text still where the shortened text overflows its box
+    await fitWrittenText(results, fitTargets, options.overflowRetries, options.variableMode, async (fitSlots, fitTexts) => {
+      const shortened = await withRequestRetries(() => callChatGPT(apiKey, settings, config, buildShortenMessage(fitTexts), fitSlots.length, { ...context, slots: fitSlots }));
+      if (generation.cancelled) {
+        throw new Error(GENERATION_CANCELLED);
+      }
+      return shortened.isArray && Array.isArray(shortened.items) ? shortened.items : [];
+    });
+    // Nodes shortened again keep their history entry, updated to their final text
+    for (const result of results) {
+      const target = fitTargets.get(result.nodeId);
+      const version = versions.get(result.nodeId);
+      if (target && version && (result.status === 'updated' || result.status === 'overflow')) {
+        recordNodeVersion(target.node, version.record, version.previousText);
+      }
+    }
+    const updated = results.filter(result => result.status === 'updated' || result.status === 'overflow').length;
+    sendWriteResults(results, `Shortened ${updated} text ${updated === 1 ? 'element' : 'elements'}`);
+  } catch (error) {
+    if (error instanceof Error && error.message === GENERATION_CANCELLED) {
+      sendToastToUI('Shorten cancelled', 'error');
+      return;
+    }
+    console.error('Error shortening text:', error);
+    sendToastToUI(getUserErrorMessage(error), 'critical');
+  } finally {
+    figma.ui.postMessage({ type: 'chat-complete' });
+    if (currentGeneration === generation) {
+      currentGeneration = null;
+    }
+  }
+}
 
 /**
- * Updates the UI with the current count of selected text elements.
+ * Suggests values in the quick action UI: recent prompts for the Fill prompt, and the saved
+ * presets for its optional preset.
+ * @param event The input event for the parameter being typed.
  */
-async function updateSelectionCount(): Promise<void> {
-  const count = await getSelectedTextElementsCount();
-  figma.ui.postMessage({
-    type: 'selection-update',
-    count: count
-  });
+async function handleParameterInput({ key, query, result }: ParameterInputEvent): Promise<void> {
+  const search = query.toLowerCase();
+  if (key === 'prompt') {
+    result.setSuggestions((await getRecentPrompts()).filter(prompt => prompt.toLowerCase().indexOf(search) >= 0));
+  } else if (key === 'preset') {
+    const presets = [{ name: 'Default', data: '' }, ...(await getPresets()).map(preset => ({ name: preset.name, data: preset.name }))];
+    result.setSuggestions(presets.filter(preset => preset.name.toLowerCase().indexOf(search) >= 0));
+  }
 }
 
 /**
- * Sends the loaded API key to the UI (for display or masking).
- * @param apiKey The API key to send.
+ * Handles the Cancel action from the UI: aborts any streamed request and stops further writes.
  */
-function sendApiKeyLoaded(apiKey: string): void {
-  figma.ui.postMessage({
-    type: 'api-key-loaded',
-    apiKey
-  });
+function handleCancelGeneration(): void {
+  if (!currentGeneration) return;
+  currentGeneration.cancelled = true;
+  cancelActiveStreams();
 }
 
 /**
- * Handles the message to save a new API key from the UI.
- * @param msg The message containing the API key.
+ * Builds the items for an offline data fill: a column (or, for cards, the columns matching the
+ * layer names) of pasted CSV/JSON, or values from a built-in generator.
+ * @param msg The fill-data message from the UI.
+ * @param structured The structured selection, or null in flat mode.
+ * @param slotCount Number of text elements or cards to fill.
+ * @returns The items and a description of the source for the generation history.
+ * @throws {Error} When the data cannot be parsed or the generator is unknown.
  */
-async function handleSaveApiKey(msg: any): Promise<void> {
-  if (!msg.apiKey) {
-    await deleteApiKey();
-    await updateSelectionCount(); // Update selection state in UI after API key deletion
-  } else {
-    await saveApiKey(msg.apiKey);
+function buildDataFillItems(msg: any, structured: StructuredSelection | null, slotCount: number): { items: any[]; source: string } {
+  if (msg.source === 'generator') {
+    if (!isDataGeneratorId(msg.generator)) {
+      throw new Error('Choose a generator');
+    }
+    const localeId = getDataLocaleId(msg.locale);
+    const seed = Number.isFinite(Number(msg.seed)) ? Math.floor(Number(msg.seed)) : 1;
+    return {
+      items: structured
+        ? generateDataCardItems(structured.fieldNames, slotCount, msg.generator, localeId, seed)
+        : generateDataItems(msg.generator, slotCount, localeId, seed),
+      source: `Generated ${msg.generator} (${localeId}, seed ${seed})`
+    };
   }
+  const table = parseDataTable(String(msg.text || ''), msg.hasHeader !== false);
+  if (structured) {
+    return { items: getDataCardItems(table, structured.fieldNames), source: `Pasted data (${table.rows.length} rows)` };
+  }
+  const column = Math.min(Math.max(0, Math.floor(Number(msg.column) || 0)), table.columns.length - 1);
+  return { items: getDataColumn(table, column), source: `Pasted data, column "${table.columns[column]}"` };
 }
 
 /**
- * Handles the message to retrieve the API key for the UI.
+ * Parses pasted data for the data fill panel, so it can offer the columns to fill from.
+ * @param msg The message containing the pasted `text` and `hasHeader`.
  */
-async function handleGetApiKey(): Promise<void> {
-  const apiKey = await getApiKey();
-  if (apiKey) {
-    sendApiKeyLoaded(apiKey);
+async function handlePreviewData(msg: any): Promise<void> {
+  const structured = await getStructuredSelection();
+  try {
+    const table = parseDataTable(String(msg.text || ''), msg.hasHeader !== false);
+    figma.ui.postMessage({
+      type: 'data-preview',
+      columns: table.columns,
+      rowCount: table.rows.length,
+      fieldNames: structured ? structured.fieldNames : null
+    });
+  } catch (error) {
+    figma.ui.postMessage({
+      type: 'data-preview',
+      columns: [],
+      rowCount: 0,
+      fieldNames: structured ? structured.fieldNames : null,
+      error: error instanceof Error ? error.message : 'Could not read the data'
+    });
   }
 }
 
-// =====================
-// handleSendChatMessage: Catches errors from callChatGPT and sets user-facing error messages for the UI.
-// =====================
 /**
- * Handles the main chat message event from the UI.
- * Gets the API key, validates selection, calls ChatGPT, and manages user notifications.
- * Catches errors and displays user-friendly messages.
- * @param msg The message from the UI containing the user prompt.
+ * Fills the selection from pasted data or a placeholder generator without calling the provider.
+ * Uses the same ordering, card matching, review, overflow checks and history as generated text.
+ * @param msg The fill-data message from the UI.
  */
-async function handleSendChatMessage(msg: any): Promise<void> {
+async function handleFillData(msg: any): Promise<void> {
+  if (currentGeneration) {
+    sendToastToUI('Wait for the current generation to finish', 'error');
+    return;
+  }
+  hideIndexPreview();
   try {
-    // Get API key from storage
-    const apiKey = await getApiKey();
-    
-    if (!apiKey) {
-      sendToastToUI('Missing valid API key', 'critical');
-      figma.ui.postMessage({ type: 'chat-complete' });
-      return;
-    }
-    
-    // Get selected text elements count
-    let selectedTextCount = await getSelectedTextElementsCount();
-    if (selectedTextCount < 1) {
+    const structured = await getStructuredSelection();
+    const orderedTextElements = structured ? [] : await getOrderedSelectedTextElements();
+    const slotCount = structured ? structured.cards.length : orderedTextElements.length;
+    if (slotCount < 1) {
       sendToastToUI('No text selected', 'error');
-      figma.ui.postMessage({ type: 'chat-complete' });
       return;
     }
-    // Call ChatGPT API
-    const aiResponse = await callChatGPT(apiKey, msg.message, selectedTextCount);
-    let result;
+    const { items, source } = buildDataFillItems(msg, structured, slotCount);
+    const generationRecord = createGenerationRecord(source, msg.source === 'generator' ? 'Placeholder generator' : 'Pasted data', 'Offline');
+    const recordVersion: TextWrittenCallback = (textElement, previousText) => recordNodeVersion(textElement, generationRecord, previousText);
 
-    // Replace text in Figma with the response
-    if (aiResponse.isArray && Array.isArray(aiResponse.items)) {
-      result = await replaceSelectedTextElements(aiResponse.items);
-    } else if (typeof aiResponse.content === 'string') {
-      // If not an array, fill all selected text nodes with the same string
-      const selection = figma.currentPage.selection.filter(node => node.type === 'TEXT');
-      result = await replaceSelectedTextElements(Array(selection.length).fill(aiResponse.content));
+    const options = await getOptions();
+    if (options.reviewBeforeApply) {
+      const entries = structured
+        ? buildStructuredReviewEntries(structured.cards, items)
+        : await buildReviewEntries(items);
+      sendReviewProposal(entries, generationRecord);
+      return;
     }
 
-    // Show unified success toast if replacement was successful
-    if (result) {
-      sendToastToUI('Updated text', 'success');
+    const fitTargets = captureFitTargets(structured ? getStructuredTextElements(structured) : orderedTextElements);
+    if (options.writeToVariables) {
+      const slotTextElements = structured
+        ? structured.cards.slice(0, items.length).reduce((nodes: TextNode[], card) => nodes.concat(getCardTextElements(card)), [])
+        : orderedTextElements.slice(0, items.length);
+      await bindTextVariables(slotTextElements, await getVariableTarget(options.variableCollection));
     }
-    figma.ui.postMessage({ type: 'chat-complete' });
-  } catch (error) {
-    // User-facing error handling and messaging happens here.
-    console.error('Error processing chat message:', error);
-    let userMessage = "Unexpected error. Please try again.";
-    if (error instanceof Error) {
-      if (error.message.includes("Incorrect API key provided")) {
-        userMessage = "Your OpenAI API key is incorrect. Please check your key and try again. You can find your API key at https://platform.openai.com/account/api-keys.";
-      } else if (error.message.includes("401")) {
-        userMessage = "Unauthorized: Please check your OpenAI API key.";
-      } else {
-        userMessage = error.message;
+    const results: TextWriteResult[] = [];
+    if (structured) {
+      for (let i = 0; i < structured.cards.length && i < items.length; i++) {
+        results.push(...await writeStructuredCard(structured.cards[i], items[i], options.variableMode, recordVersion));
       }
+    } else {
+      results.push(...(await replaceSelectedTextElements(items, options.variableMode, recordVersion) || []));
     }
-    sendToastToUI(userMessage, 'critical');
-    figma.ui.postMessage({ type: 'chat-complete' });
+    // Overflowing text is reported, not shortened, since there is no model to ask
+    await fitWrittenText(results, fitTargets, 0, options.variableMode, async () => []);
+    await updateSelectionCount();
+    const filled = Math.min(slotCount, items.length);
+    sendWriteResults(results, filled < slotCount ? `Filled ${filled} of ${slotCount}` : 'Filled text');
+  } catch (error) {
+    console.error('Error filling data:', error);
+    sendToastToUI(error instanceof Error ? error.message : 'Could not fill the data', 'critical');
   }
 }
 
@@ -540,7 +6168,157 @@ async function handleMessage(msg: PluginMessage): Promise<void> {
       break;
       
     case 'get-api-key':
-      await handleGetApiKey();
+      await handleGetApiKey(msg);
+      break;
+
+    case 'get-provider-settings':
+      await handleGetProviderSettings();
+      break;
+
+    case 'save-provider-settings':
+      await handleSaveProviderSettings(msg);
+      break;
+
+    case 'get-options':
+      await handleGetOptions();
+      break;
+
+    case 'save-options':
+      await handleSaveOptions(msg);
+      break;
+
+    case 'toggle-index-preview':
+      await handleToggleIndexPreview();
+      break;
+
+    case 'cancel-generation':
+      handleCancelGeneration();
+      break;
+
+    case 'stream-chunk':
+      handleStreamChunk(msg);
+      break;
+
+    case 'stream-end':
+      handleStreamEnd(msg);
+      break;
+
+    case 'stream-error':
+      handleStreamError(msg);
+      break;
+
+    case 'apply-review':
+      await handleApplyReview(msg);
+      break;
+
+    case 'discard-review':
+      closeReview();
+      break;
+
+    case 'close-write-results':
+    case 'close-conversation':
+    case 'close-history':
+    case 'close-data-fill':
+    case 'close-translate':
+    case 'close-copy-check':
+    case 'close-variants':
+      figma.ui.resize(UI_SIZE.width, UI_SIZE.height);
+      break;
+
+    case 'get-usage':
+      await handleGetUsage();
+      break;
+
+    case 'get-style-guide':
+      handleGetStyleGuide();
+      break;
+
+    case 'save-style-guide':
+      handleSaveStyleGuide(msg);
+      break;
+
+    case 'get-translation-settings':
+      await handleGetTranslationSettings();
+      break;
+
+    case 'check-copy':
+      await handleCheckCopy(msg);
+      break;
+
+    case 'apply-copy-fix':
+      await handleApplyCopyFix(msg);
+      break;
+
+    case 'select-node':
+      await handleSelectNode(msg);
+      break;
+
+    case 'translate-frames':
+      await handleTranslateFrames(msg);
+      break;
+
+    case 'open-data-fill':
+      figma.ui.resize(UI_SIZE.width, REVIEW_UI_HEIGHT);
+      break;
+
+    case 'preview-data':
+      await handlePreviewData(msg);
+      break;
+
+    case 'fill-data':
+      await handleFillData(msg);
+      break;
+
+    case 'get-variants':
+      await handleGetVariants();
+      break;
+
+    case 'cycle-variants':
+      await handleCycleVariants(msg);
+      break;
+
+    case 'pin-variant':
+      await handlePinVariant(msg);
+      break;
+
+    case 'get-history':
+      await handleGetHistory();
+      break;
+
+    case 'restore-history':
+      await handleRestoreHistory(msg);
+      break;
+
+    case 'select-generated-text':
+      await handleSelectGeneratedText();
+      break;
+
+    case 'get-conversation':
+      await handleGetConversation();
+      break;
+
+    case 'reset-conversation':
+      await handleResetConversation();
+      break;
+
+    case 'get-generation-settings':
+      await sendGenerationSettings();
+      break;
+
+    case 'save-generation-config':
+      await handleSaveGenerationConfig(msg);
+      break;
+
+    case 'save-preset':
+      await handleSavePreset(msg);
+      break;
+
+    case 'delete-preset':
+      await handleDeletePreset(msg);
+      break;
+
+    case 'set-document-preset':
+      await handleSetDocumentPreset(msg);
       break;
       
     case 'send-chat-message':
@@ -565,24 +6343,74 @@ async function handleMessage(msg: PluginMessage): Promise<void> {
 // MAIN PLUGIN CODE
 // ============================================================================
 
-// Initialize the plugin UI with specified dimensions and theme support
-figma.showUI(__html__, { 
-  width: 400, 
-  height: 188,
-  themeColors: true
-});
+// Menu commands and relaunch buttons that run without showing the chat window
+const HEADLESS_COMMANDS = ['fill', 'regenerate', 'shorten'];
 
-// Send initial selection state to UI on plugin load
-updateSelectionCount();
-// Listen for selection changes and update UI accordingly
-figma.on('selectionchange', async () => {
-  await updateSelectionCount();
-});
+/**
+ * Initializes the plugin UI with the default dimensions and theme support, and starts
+ * following the selection. Headless runs load it hidden: it still answers messages and is
+ * revealed when a result needs the user.
+ * @param visible Whether the window is shown.
+ */
+function showPluginUI(visible: boolean): void {
+  isHeadless = !visible;
+  figma.showUI(__html__, { 
+    width: UI_SIZE.width, 
+    height: UI_SIZE.height,
+    themeColors: true,
+    visible
+  });
 
-// Listen for messages from the UI and route to handler
-figma.ui.onmessage = async (msg: PluginMessage) => {
-  await handleMessage(msg);
-}; 
+  // Send initial selection state to UI on plugin load
+  updateSelectionCount();
+  // Listen for selection changes and update UI accordingly
+  figma.on('selectionchange', async () => {
+    await updateSelectionCount();
+    // Keep the index preview in step with the selection
+    if (indexPreview) {
+      await showIndexPreview();
+    }
+  });
+  // Never leave index badges behind in the file
+  figma.on('close', removeIndexPreview);
+
+  // Listen for messages from the UI and route to handler
+  figma.ui.onmessage = async (msg: PluginMessage) => {
+    await handleMessage(msg);
+  };
+}
+
+/**
+ * Runs a quick action or relaunch button without the chat window, then closes the plugin with
+ * the outcome, unless the run revealed the UI (e.g. for the review panel).
+ * @param command The menu or relaunch command.
+ * @param parameters The quick action parameters (`prompt` and optional `preset` for Fill).
+ */
+async function runHeadlessCommand(command: string, parameters: ParameterValues | undefined): Promise<void> {
+  showPluginUI(false);
+  if (command === 'fill') {
+    await handleSendChatMessage({
+      message: parameters && parameters.prompt ? String(parameters.prompt) : '',
+      preset: parameters && parameters.preset ? String(parameters.preset) : ''
+    });
+  } else if (command === 'regenerate') {
+    await handleRegenerateSelection();
+  } else if (command === 'shorten') {
+    await handleShortenSelection();
+  }
+  if (isHeadless) {
+    figma.closePlugin(headlessMessage);
+  }
+}
+
+figma.parameters.on('input', handleParameterInput);
+figma.on('run', ({ command, parameters }: RunEvent) => {
+  if (HEADLESS_COMMANDS.indexOf(command) >= 0) {
+    runHeadlessCommand(command, parameters);
+  } else {
+    showPluginUI(true);
+  }
+});
 
 /**
  * Sends a toast notification to the UI.
@@ -590,6 +6418,10 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
  * @param toastType The type of toast ('success', 'error', 'critical').
  */
 function sendToastToUI(message: string, toastType: 'success' | 'error' | 'critical' = 'success') {
+  if (isHeadless) {
+    headlessMessage = message;
+    return;
+  }
   figma.ui.postMessage({
     type: 'show-toast',
     message,
@@ -0,0 +1,30 @@
+// Loads the compiled plugin (dist/code.js, built by `npm test`) into a sandbox with a minimal
+// `figma` global. Top-level functions are properties of the returned context; constants and
+// classes can be read with `vm.runInContext(name, plugin)`.
+const fs = require('node:fs');
+const path = require('node:path');
+const vm = require('node:vm');
+
+function loadPlugin() {
+  const storage = new Map();
+  const figma = {
+    clientStorage: {
+      getAsync: async key => storage.get(key),
+      setAsync: async (key, value) => { storage.set(key, value); }
+    },
+    parameters: { on() {} },
+    ui: { postMessage() {} },
+    on() {}
+  };
+  const quietConsole = { log() {}, warn() {}, error() {} };
+  const plugin = vm.createContext({ figma, fetch, console: quietConsole, setTimeout, clearTimeout });
+  vm.runInContext(fs.readFileSync(path.join(__dirname, '..', 'dist', 'code.js'), 'utf8'), plugin);
+  return plugin;
+}
+
+// Copies a value created inside the sandbox into this realm, so deepStrictEqual compares plain data
+function toPlain(value) {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+module.exports = { loadPlugin, toPlain };
@@ -0,0 +1,60 @@
+// Parsing of model output (JSON repair, streamed arrays) and of pasted CSV.
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { loadPlugin, toPlain } = require('./load-plugin');
+
+const plugin = loadPlugin();
+
+// Feeds `text` to a new stream parser in the given chunk sizes and collects every completed item
+function parseStream(chunks) {
+  const parser = plugin.createArrayStreamParser();
+  return chunks.reduce((items, chunk) => items.concat(toPlain(parser.push(chunk))), []);
+}
+
+test('truncated JSON is cut back to the last complete item and closed', () => {
+  assert.deepStrictEqual(JSON.parse(plugin.repairJson('["One", "Two", "Thr')), ['One', 'Two']);
+  assert.deepStrictEqual(JSON.parse(plugin.repairJson('[{"title": "A", "body": "B"}, {"title": "C", "bo')), [{ title: 'A', body: 'B' }]);
+});
+
+test('JSON repair drops trailing commas, escapes raw line breaks and ignores trailing text', () => {
+  assert.deepStrictEqual(JSON.parse(plugin.repairJson('["One",\n "Two",\n]')), ['One', 'Two']);
+  assert.deepStrictEqual(JSON.parse(plugin.repairJson('["Line one\nLine two"]')), ['Line one\nLine two']);
+  assert.deepStrictEqual(JSON.parse(plugin.repairJson('["One"] and some notes')), ['One']);
+});
+
+test('fenced JSON with surrounding prose is read as a list', () => {
+  const response = plugin.parseChatContent('Here you go:\n```json\n["One", "Two",]\n```\nLet me know if you need more.');
+  assert.strictEqual(response.isArray, true);
+  assert.deepStrictEqual(toPlain(response.items), ['One', 'Two']);
+});
+
+test('a fenced response cut off by the token limit keeps its complete items', () => {
+  const response = plugin.parseChatContent('```json\n["One", "Two", "Thr');
+  assert.strictEqual(response.isArray, true);
+  assert.deepStrictEqual(toPlain(response.items), ['One', 'Two']);
+});
+
+test('quoted CSV cells may hold delimiters, line breaks and doubled quotes', () => {
+  const rows = plugin.parseCsv('name,quote\n"Smith, Anna","Said ""hi""\nthen left"\nLee,Short\n');
+  assert.deepStrictEqual(toPlain(rows), [['name', 'quote'], ['Smith, Anna', 'Said "hi"\nthen left'], ['Lee', 'Short']]);
+});
+
+test('CSV delimiters are detected outside quotes, and blank lines dropped', () => {
+  const rows = plugin.parseCsv('name;price\r\n"Tea, green";3,50\r\n\r\nCoffee;2,90');
+  assert.deepStrictEqual(toPlain(rows), [['name', 'price'], ['Tea, green', '3,50'], ['Coffee', '2,90']]);
+});
+
+test('streamed items split mid-token are returned once complete', () => {
+  const items = parseStream(['```json\n[{"ti', 'tle": "A"', '}, 4', '2, "B', 'ee"', ']\n```']);
+  assert.deepStrictEqual(items, [{ title: 'A' }, 42, 'Bee']);
+});
+
+test('streamed strings split mid-escape keep their quotes and brackets', () => {
+  const items = parseStream(['["Say \\', '"hi\\"", "a, b', ' ] \\', '\\", "end"]']);
+  assert.deepStrictEqual(items, ['Say "hi"', 'a, b ] \\', 'end']);
+});
+
+test('streamed text arriving one character at a time gives the same items', () => {
+  const text = '[{"title": "A, \\"quoted\\""}, ["x", "y"], 7]';
+  assert.deepStrictEqual(parseStream(text.split('')), [{ title: 'A, "quoted"' }, ['x', 'y'], 7]);
+});
@@ -0,0 +1,157 @@
+// Retry behaviour of provider requests, checked against a local stub server.
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const http = require('node:http');
+const vm = require('node:vm');
+const { loadPlugin, toPlain } = require('./load-plugin');
+
+const plugin = loadPlugin();
+const BASE_DELAY_MS = vm.runInContext('RETRY_BASE_DELAY_MS', plugin);
+
+// Each test queues the responses the stub server gives, in order; `delayMs` holds a response back
+let responses = [];
+let requestCount = 0;
+let server;
+let baseUrl;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    requestCount++;
+    const next = responses.shift() || { status: 200 };
+    req.resume();
+    setTimeout(() => {
+      res.writeHead(next.status, Object.assign({ 'Content-Type': 'application/json' }, next.headers));
+      res.end(JSON.stringify(next.body || {
+        choices: [{ message: { content: '["First", "Second"]' } }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 }
+      }));
+    }, next.delayMs || 0);
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+/**
+ * Sends a chat request through withRetries, recording the delays instead of waiting them out.
+ * @returns The response or error, the delays asked for and the attempts the stub server saw.
+ */
+async function requestWithRetries(settings) {
+  requestCount = 0;
+  const delays = [];
+  const providerSettings = Object.assign({ provider: 'openai-compatible', baseUrl, deployment: '', apiVersion: '', timeoutSeconds: 5, maxRetries: 3 }, settings);
+  const config = { model: 'stub-model', temperature: 0.7, max_tokens: 100, top_p: 1, frequency_penalty: 0, presence_penalty: 0 };
+  plugin.run = () => plugin.callChatGPT('', providerSettings, config, 'Write two labels', 2);
+  plugin.wait = async (delayMs, nextAttempt, totalAttempts) => { delays.push({ delayMs, nextAttempt, totalAttempts }); };
+  try {
+    const response = await vm.runInContext(`withRetries(run, ${providerSettings.maxRetries}, wait)`, plugin);
+    return { response, error: null, delays, attempts: requestCount };
+  } catch (error) {
+    return { response: null, error, delays, attempts: requestCount };
+  }
+}
+
+/**
+ * Asserts that a backoff delay lies in the jittered range for the attempt that failed.
+ */
+function assertBackoff(delayMs, failedAttempt) {
+  const full = BASE_DELAY_MS * Math.pow(2, failedAttempt - 1);
+  assert.ok(delayMs >= full * 0.5 && delayMs <= full, `delay ${delayMs} outside [${full * 0.5}, ${full}]`);
+}
+
+test('429 with Retry-After waits the requested time, then succeeds', async () => {
+  responses = [{ status: 429, headers: { 'Retry-After': '2' }, body: { error: { message: 'Rate limit reached' } } }];
+  const { response, delays, attempts } = await requestWithRetries();
+  assert.deepStrictEqual(toPlain(response.items), ['First', 'Second']);
+  assert.strictEqual(attempts, 2);
+  assert.deepStrictEqual(delays, [{ delayMs: 2000, nextAttempt: 2, totalAttempts: 4 }]);
+});
+
+test('429 asking for a wait beyond the maximum fails without retrying', async () => {
+  responses = [{ status: 429, headers: { 'Retry-After': '3600' }, body: { error: { message: 'Rate limit reached' } } }];
+  const { error, delays, attempts } = await requestWithRetries();
+  assert.strictEqual(error.name, 'ApiRequestError');
+  assert.strictEqual(error.retryable, false);
+  assert.match(error.message, /try again in 3600s/);
+  assert.strictEqual(attempts, 1);
+  assert.strictEqual(delays.length, 0);
+});
+
+test('429 for an exhausted quota is not retried', async () => {
+  responses = [{ status: 429, body: { error: { message: 'You exceeded your current quota', code: 'insufficient_quota' } } }];
+  const { error, attempts } = await requestWithRetries();
+  assert.strictEqual(error.status, 429);
+  assert.strictEqual(error.retryable, false);
+  assert.strictEqual(attempts, 1);
+});
+
+test('5xx responses back off exponentially until one succeeds', async () => {
+  responses = [{ status: 503 }, { status: 500 }];
+  const { response, delays, attempts } = await requestWithRetries();
+  assert.deepStrictEqual(toPlain(response.items), ['First', 'Second']);
+  assert.strictEqual(attempts, 3);
+  assert.deepStrictEqual(delays.map(delay => delay.nextAttempt), [2, 3]);
+  delays.forEach((delay, i) => assertBackoff(delay.delayMs, i + 1));
+});
+
+test('5xx responses stop after the last retry', async () => {
+  responses = [{ status: 502 }, { status: 502 }, { status: 502 }];
+  const { error, delays, attempts } = await requestWithRetries({ maxRetries: 2 });
+  assert.strictEqual(error.status, 502);
+  assert.strictEqual(attempts, 3);
+  assert.strictEqual(delays.length, 2);
+  delays.forEach((delay, i) => assertBackoff(delay.delayMs, i + 1));
+});
+
+test('4xx responses other than rate limits are not retried', async () => {
+  responses = [{ status: 400, body: { error: { message: 'Invalid request' } } }];
+  const { error, delays, attempts } = await requestWithRetries();
+  assert.strictEqual(error.status, 400);
+  assert.strictEqual(attempts, 1);
+  assert.strictEqual(delays.length, 0);
+});
+
+test('network errors are retried with backoff, then reported', async () => {
+  // Nothing listens on a port that was just released
+  const closed = http.createServer();
+  await new Promise(resolve => closed.listen(0, '127.0.0.1', resolve));
+  const port = closed.address().port;
+  await new Promise(resolve => closed.close(resolve));
+  const { error, delays } = await requestWithRetries({ baseUrl: `http://127.0.0.1:${port}`, maxRetries: 2 });
+  assert.strictEqual(error.name, 'ApiRequestError');
+  assert.strictEqual(error.status, null);
+  assert.match(error.message, /^Network error/);
+  assert.deepStrictEqual(delays.map(delay => delay.nextAttempt), [2, 3]);
+  delays.forEach((delay, i) => assertBackoff(delay.delayMs, i + 1));
+});
+
+test('timeouts are retried, and a later fast response succeeds', async () => {
+  responses = [{ status: 200, delayMs: 1000 }, { status: 200 }];
+  const { response, delays, attempts } = await requestWithRetries({ timeoutSeconds: 0.2 });
+  assert.deepStrictEqual(toPlain(response.items), ['First', 'Second']);
+  assert.strictEqual(attempts, 2);
+  assert.strictEqual(delays.length, 1);
+  assertBackoff(delays[0].delayMs, 1);
+});
+
+test('timeouts stop after the last retry', async () => {
+  responses = [{ status: 200, delayMs: 1000 }, { status: 200, delayMs: 1000 }];
+  const { error, delays, attempts } = await requestWithRetries({ timeoutSeconds: 0.2, maxRetries: 1 });
+  assert.strictEqual(error.status, null);
+  assert.match(error.message, /timed out after 0.2s/);
+  assert.strictEqual(attempts, 2);
+  assert.strictEqual(delays.length, 1);
+});
+
+test('rejected requests and the spending limit end a chunked generation, other failures do not', () => {
+  const ApiRequestError = vm.runInContext('ApiRequestError', plugin);
+  const BudgetExceededError = vm.runInContext('BudgetExceededError', plugin);
+  assert.strictEqual(plugin.isFatalRequestError(new ApiRequestError('Invalid API key', 401, false)), true);
+  assert.strictEqual(plugin.isFatalRequestError(new BudgetExceededError('Spending limit reached')), true);
+  assert.strictEqual(plugin.isFatalRequestError(new ApiRequestError('Server error', 500, true)), false);
+  assert.strictEqual(plugin.isFatalRequestError(new Error('The response was not a list of texts. Please try again.')), false);
+});
@@ -0,0 +1,47 @@
+// Glossary protection and reading of translation responses.
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { loadPlugin } = require('./load-plugin');
+
+const plugin = loadPlugin();
+
+test('glossary terms survive a round trip through tokens', () => {
+  const glossary = ['Mentarii', 'Pro plan'];
+  const protectedText = plugin.protectGlossaryTerms('Try Mentarii on the Pro plan today', glossary);
+  assert.strictEqual(protectedText, 'Try ⟦0⟧ on the ⟦1⟧ today');
+  assert.strictEqual(plugin.restoreGlossaryTerms('Probiere ⟦0⟧ im ⟦1⟧ aus', glossary), 'Probiere Mentarii im Pro plan aus');
+});
+
+test('glossary terms only match whole words, longest first', () => {
+  const glossary = ['Pro', 'Pro plan'];
+  assert.strictEqual(plugin.protectGlossaryTerms('Pro plan, Pro and Product', glossary), '⟦1⟧, ⟦0⟧ and Product');
+});
+
+test('unknown glossary tokens are left as they are', () => {
+  assert.strictEqual(plugin.restoreGlossaryTerms('Keep ⟦7⟧', ['Mentarii']), 'Keep ⟦7⟧');
+});
+
+test('numeric translation items are read as text', () => {
+  assert.strictEqual(plugin.readTranslatedItem(42, ['Mentarii']), '42');
+  assert.strictEqual(plugin.readTranslatedItem(9.99, []), '9.99');
+});
+
+test('text translation items get their glossary terms back', () => {
+  assert.strictEqual(plugin.readTranslatedItem('Willkommen bei ⟦0⟧', ['Mentarii']), 'Willkommen bei Mentarii');
+});
+
+test('translation items that are neither texts nor numbers are skipped', () => {
+  assert.strictEqual(plugin.readTranslatedItem(null, []), null);
+  assert.strictEqual(plugin.readTranslatedItem({ text: 'Hallo' }, []), null);
+  assert.strictEqual(plugin.readTranslatedItem(['Hallo'], []), null);
+});
+
+test('a batch with numeric items round-trips through glossary protection', () => {
+  const glossary = ['Mentarii'];
+  const texts = ['Mentarii Pro', '12', 'Buy Mentarii for 9.99'];
+  const sent = texts.map(text => plugin.protectGlossaryTerms(text, glossary));
+  assert.deepStrictEqual(Array.from(sent), ['⟦0⟧ Pro', '12', 'Buy ⟦0⟧ for 9.99']);
+  // The model answers numbers without quotes
+  const received = ['⟦0⟧ Pro', 12, 'Kaufe ⟦0⟧ für 9,99'];
+  assert.deepStrictEqual(received.map(item => plugin.readTranslatedItem(item, glossary)), ['Mentarii Pro', '12', 'Kaufe Mentarii für 9,99']);
+});